@@ -1,9 +1,15 @@
 import { Eval } from 'braintrust';
 import { model, data, createWorkerTask, scorerArgs, MAX_STEPS } from './shared.js';
+import { CODEMODE_TYPECHECK } from '../src/tools/codemode-tools.js';
 
 Eval('bash-evals', {
-  experimentName: `codemode-${model}`,
-  metadata: { model, agent: 'codemode', maxSteps: MAX_STEPS },
+  experimentName: `codemode-${model}${CODEMODE_TYPECHECK ? '' : '-notypecheck'}`,
+  metadata: {
+    model,
+    agent: 'codemode',
+    maxSteps: MAX_STEPS,
+    codemodeTypecheck: CODEMODE_TYPECHECK,
+  },
   data,
   task: createWorkerTask('codemode'),
   ...scorerArgs,
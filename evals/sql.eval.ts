@@ -1,9 +1,10 @@
 import { Eval } from 'braintrust';
 import { model, data, createWorkerTask, scorerArgs, MAX_STEPS } from './shared.js';
+import { SQL_PLAN_FEEDBACK } from '../src/tools/sql-tools.js';
 
 Eval('bash-evals', {
-  experimentName: `sql-${model}`,
-  metadata: { model, agent: 'sql', maxSteps: MAX_STEPS },
+  experimentName: `sql-${model}${SQL_PLAN_FEEDBACK ? '' : '-noplan'}`,
+  metadata: { model, agent: 'sql', maxSteps: MAX_STEPS, sqlPlanFeedback: SQL_PLAN_FEEDBACK },
   data,
   task: createWorkerTask('sql'),
   ...scorerArgs,
@@ -131,8 +131,14 @@ function buildSystemPrompt(tools: string[]): string {
 
 The data is organized as follows:
 - repos/{owner}/{repo}/repo.json - Repository metadata
-- repos/{owner}/{repo}/issues/{number}.json - Issue data with title, body, state, labels, comments
-- repos/{owner}/{repo}/pulls/{number}.json - Pull request data with title, body, state, merged status, comments
+- repos/{owner}/{repo}/issues/{number}.json - Issue data with title, body, state, labels, comments, timeline
+- repos/{owner}/{repo}/pulls/{number}.json - Pull request data with title, body, state, merged status, comments, reviews, timeline
+- Each issue/PR "timeline" lists its history oldest first: { action (opened, closed, reopened, labeled, merged, ...), actor, label, created_at }
+- repos/{owner}/{repo}/commits/{sha}.json - Pushed commit with message, author, pusher, branch ref
+- repos/{owner}/{repo}/releases/{tag}.json - Release data with tag, name, body, author, draft/prerelease flags
+- repos/{owner}/{repo}/stars.json, forks.json - Who starred or forked the repo, and when
+- repos/{owner}/{repo}/refs.json - Branches and tags created or deleted
+- repos/{owner}/{repo}/members.json - Collaborators added to the repo
 - users/{username}.json - User data with activity counts
 
 You have access to standard Unix tools via bash:
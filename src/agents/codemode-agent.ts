@@ -1,36 +1,70 @@
 import { ToolLoopAgent, stepCountIs } from '../tracing.js';
-import { codemodeTools } from '../tools/codemode-tools.js';
+import { HELPERS_DECLARATIONS } from '../tools/codemode-helpers.js';
+import { CODEMODE_TYPECHECK, createCodemodeTools } from '../tools/codemode-tools.js';
 import { MAX_STEPS, type AgentResult, type StreamCallbacks } from './bash-agent.js';
 import { createModel, getModelFromEnv, type ModelId } from '../models.js';
 
 const SYSTEM_PROMPT = `You are a data analyst assistant that queries GitHub event data by writing JavaScript code.
 
-You have ONE tool: code - execute JavaScript to query the data.
+You have these tools:
+- code: execute JavaScript to query the data
+- listScratch: list the values you have stored on \`scratch\`
+- clearScratch: remove values from \`scratch\`
 
 The data object is available with these arrays:
 - data.repos: Repo[] - all repositories
 - data.users: User[] - all users with activity counts
 - data.issues: Issue[] - all issues with comments
-- data.pulls: Pull[] - all pull requests with comments
+- data.pulls: Pull[] - all pull requests with comments and reviews
+- data.releases: Release[] - published releases
+- data.stars: Star[] - who starred which repo
+- data.forks: Fork[] - forks created from each repo
+- data.refs: Ref[] - branches and tags created or deleted
+- data.members: Member[] - collaborators added to repos
+- data.commits: Commit[] - pushed commits
 
 Types:
 interface Repo { id, owner, name, fullName }
 interface User { id, login, issuesOpened, prsOpened, commentsMade }
-interface Issue { id, repoId, repoFullName, number, title, body, state, author, labels: string[], comments: Comment[], createdAt, updatedAt, closedAt }
-interface Pull { id, repoId, repoFullName, number, title, body, state, author, merged, mergedAt, comments: Comment[], createdAt, updatedAt }
+interface Issue { id, repoId, repoFullName, number, title, body, state, author, labels: string[], comments: Comment[], timeline: TimelineEvent[], createdAt, updatedAt, closedAt }
+interface Pull { id, repoId, repoFullName, number, title, body, state, author, merged, mergedAt, comments: Comment[], reviews: Review[], timeline: TimelineEvent[], createdAt, updatedAt }
 interface Comment { id, body, author, createdAt }
+interface Review { id, author, state, body, submittedAt }
+interface TimelineEvent { id, action, actor, label, createdAt } // oldest first; action: opened, closed, reopened, labeled, merged, ...
+interface Release { id, repoFullName, tagName, name, body, author, draft, prerelease, createdAt, publishedAt }
+interface Star { repoFullName, user, starredAt }
+interface Fork { id, repoFullName, fullName, owner, forkedAt }
+interface Ref { repoFullName, ref, refType, action, actor, createdAt }
+interface Member { repoFullName, login, action, actor, createdAt }
+interface Commit { repoFullName, sha, message, authorName, authorEmail, pushedBy, ref, pushedAt }
+
+The data object also has helpers backed by indexes. Each index is built the first time its helper is
+called (costing about one pass over the array) and reused by later calls, across code calls too, so
+after that they are much faster than filter(). Use them for lookups by repo, author or "owner/repo#number" key:
+${HELPERS_DECLARATIONS}
 
 Write JavaScript code to answer questions. You can use:
 - Array methods: filter, map, reduce, find, sort, slice, etc.
 - Object manipulation for aggregations
 - String methods for text search
 - IIFEs for complex logic: (() => { ... })()
+- Statements with top-level await/return: const open = data.issues.filter(...); return open.length
+- console.log to print intermediate values (returned alongside the result)
+${CODEMODE_TYPECHECK ? "\nCode is type-checked before it runs. If you get type errors instead of a result (e.g. \"Property 'repo_full_name' does not exist on type 'Issue'. Did you mean 'repoFullName'?\"), fix the code and call code again; start it with // @ts-nocheck only if you are sure the checker is wrong.\n" : ''}
+The data is read-only (copy arrays before sorting: [...data.users].sort(...)) and each call starts from a fresh sandbox, so variables don't carry over between calls.
+The exception is \`scratch\`, an object that persists for the whole session. When a later step will need an
+expensive intermediate result (an index, a grouping, a helper function), store it there once and reuse it:
+- Build once: scratch.closeHours = new Map(data.issues.filter(i => i.closedAt).map(i => [i.id, (Date.parse(i.closedAt) - Date.parse(i.createdAt)) / 36e5])); scratch.closeHours.size
+- Reuse later: data.byRepo('facebook/react').issues.map(i => scratch.closeHours.get(i.id)).filter(h => h !== undefined)
 
 Examples:
 - Count open issues: data.issues.filter(i => i.state === 'open').length
-- Top repos by issues: (() => { const c = {}; data.issues.forEach(i => c[i.repoFullName] = (c[i.repoFullName]||0)+1); return Object.entries(c).sort((a,b) => b[1]-a[1]).slice(0,5); })()
-- Find issues mentioning "bug": data.issues.filter(i => i.title.toLowerCase().includes('bug') || i.body?.toLowerCase().includes('bug'))
-- Users who opened most PRs: data.users.sort((a,b) => b.prsOpened - a.prsOpened).slice(0,10)`;
+- Top repos by issues: data.groupCount(data.issues, 'repoFullName').slice(0, 5)
+- Most used labels: data.groupCount(data.issues, i => i.labels).slice(0, 10)
+- Find issues mentioning "bug": data.search('bug').issues
+- One issue with its comments: data.issueByKey('facebook/react#123')?.comments
+- What a user did: (() => { const a = data.byAuthor('octocat'); return { issues: a.issues.length, pulls: a.pulls.length, comments: a.comments.length }; })()
+- Users who opened most PRs: [...data.users].sort((a,b) => b.prsOpened - a.prsOpened).slice(0,10)`;
 
 export async function runCodemodeAgent(
   question: string,
@@ -42,54 +76,60 @@ export async function runCodemodeAgent(
   let totalTokens = 0;
   let toolCallCount = 0;
 
-  const agent = new ToolLoopAgent({
-    model: createModel(modelId ?? getModelFromEnv()),
-    instructions: SYSTEM_PROMPT,
-    tools: codemodeTools,
-    stopWhen: stepCountIs(MAX_STEPS),
-  });
-
-  const stream = await agent.stream({
-    prompt: question,
-  });
-
-  for await (const event of stream.fullStream) {
-    switch (event.type) {
-      case 'text-delta':
-        fullText += event.text;
-        callbacks?.onText?.(event.text);
-        break;
-
-      case 'tool-call':
-        toolCallCount++;
-        callbacks?.onToolCall?.(event.toolName, event.input as Record<string, unknown>);
-        callbacks?.onProgress?.({ toolCalls: toolCallCount, tokens: totalTokens });
-        break;
-
-      case 'tool-result':
-        const resultStr =
-          typeof event.output === 'string' ? event.output : JSON.stringify(event.output);
-        callbacks?.onToolResult?.(event.toolName, resultStr.slice(0, 500));
-        break;
-
-      case 'finish-step':
-        totalTokens += event.usage?.totalTokens || 0;
-        callbacks?.onProgress?.({ toolCalls: toolCallCount, tokens: totalTokens });
-        break;
+  // Scratch state lives for this run only
+  const { tools, close } = createCodemodeTools();
+  try {
+    const agent = new ToolLoopAgent({
+      model: createModel(modelId ?? getModelFromEnv()),
+      instructions: SYSTEM_PROMPT,
+      tools,
+      stopWhen: stepCountIs(MAX_STEPS),
+    });
+
+    const stream = await agent.stream({
+      prompt: question,
+    });
+
+    for await (const event of stream.fullStream) {
+      switch (event.type) {
+        case 'text-delta':
+          fullText += event.text;
+          callbacks?.onText?.(event.text);
+          break;
+
+        case 'tool-call':
+          toolCallCount++;
+          callbacks?.onToolCall?.(event.toolName, event.input as Record<string, unknown>);
+          callbacks?.onProgress?.({ toolCalls: toolCallCount, tokens: totalTokens });
+          break;
+
+        case 'tool-result':
+          const resultStr =
+            typeof event.output === 'string' ? event.output : JSON.stringify(event.output);
+          callbacks?.onToolResult?.(event.toolName, resultStr.slice(0, 500));
+          break;
+
+        case 'finish-step':
+          totalTokens += event.usage?.totalTokens || 0;
+          callbacks?.onProgress?.({ toolCalls: toolCallCount, tokens: totalTokens });
+          break;
+      }
     }
-  }
 
-  // Check if agent ran out of steps without completing
-  const steps = await stream.steps;
-  const lastStep = steps[steps.length - 1];
-  if (steps.length >= MAX_STEPS && lastStep?.finishReason === 'tool-calls') {
-    throw new Error(`Agent reached maximum ${MAX_STEPS} steps without producing a final answer`);
-  }
+    // Check if agent ran out of steps without completing
+    const steps = await stream.steps;
+    const lastStep = steps[steps.length - 1];
+    if (steps.length >= MAX_STEPS && lastStep?.finishReason === 'tool-calls') {
+      throw new Error(`Agent reached maximum ${MAX_STEPS} steps without producing a final answer`);
+    }
 
-  return {
-    answer: fullText,
-    latencyMs: Date.now() - startTime,
-    tokens: totalTokens,
-    toolCalls: toolCallCount,
-  };
+    return {
+      answer: fullText,
+      latencyMs: Date.now() - startTime,
+      tokens: totalTokens,
+      toolCalls: toolCallCount,
+    };
+  } finally {
+    close();
+  }
 }
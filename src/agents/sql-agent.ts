@@ -1,5 +1,5 @@
 import { ToolLoopAgent, stepCountIs } from '../tracing.js';
-import { sqlTools } from '../tools/sql-tools.js';
+import { SQL_PLAN_FEEDBACK, sqlTools } from '../tools/sql-tools.js';
 import { MAX_STEPS, type AgentResult, type StreamCallbacks } from './bash-agent.js';
 import { createModel, getModelFromEnv, type ModelId } from '../models.js';
 
@@ -11,23 +11,38 @@ The database has the following tables:
 - issues (id, repo_id, number, title, body, state, author, labels_json, created_at, updated_at, closed_at)
 - pulls (id, repo_id, number, title, body, state, author, merged, merged_at, created_at, updated_at)
 - comments (id, issue_id, pull_id, body, author, created_at)
+- issue_events (id, issue_id, action, actor, label, created_at) - issue history: opened, closed, reopened, labeled, ...
+- pull_events (id, pull_id, action, actor, label, created_at) - PR history; action is 'merged' for merges
+- reviews (id, pull_id, author, state, body, submitted_at)
+- releases (id, repo_id, tag_name, name, body, author, draft, prerelease, created_at, published_at)
+- stars (repo_id, user, starred_at)
+- forks (id, repo_id, full_name, owner, forked_at)
+- refs (repo_id, ref, ref_type, action, actor, created_at)
+- members (repo_id, login, action, actor, created_at)
+- commits (repo_id, sha, message, author_name, author_email, pushed_by, ref, pushed_at)
 - events (id, type, actor_login, repo_name, payload_json, created_at)
+- issues_fts, pulls_fts (title, body) and comments_fts (body) - FTS5 full-text indexes; rowid is the issue/pull/comment id
 
 You have access to SQL tools:
-- query: Execute a SELECT query
+- query: Execute a SELECT query (read-only, one statement per call, up to 1000 rows and 10s). Results come a page at a time as JSON, CSV or TSV, optionally only some columns
+- next: Get the next page of a query result by its cursor
+- search: Ranked full-text search over issue/PR titles, bodies and comments
 - schema: Get full database schema
 - tables: List all tables
 - sample: Get sample rows from a table
 - count: Count rows in a table
-
+${SQL_PLAN_FEEDBACK ? '- explain: Show the query plan (indexes used, estimated rows) for a SELECT without running it\n' : ''}
 Use SQL to answer questions. Start by understanding the schema if needed, then write queries to find the answer.
 
 Tips:
 - Use JOINs to connect related tables (e.g., issues to repos via repo_id)
 - labels_json and payload_json are JSON strings - use json_extract() to query them
-- The 'merged' column in pulls is 0/1 (not true/false)
-- Use LIKE for text pattern matching
-- Use GROUP BY and aggregate functions for counting/analysis`;
+- The 'merged' column in pulls and 'draft'/'prerelease' in releases are 0/1 (not true/false)
+- refs.action is 'created' or 'deleted'; ref_type is 'branch', 'tag' or 'repository'
+- Use the search tool (or "<table>_fts MATCH ..." in a query) to find text; LIKE is slower and can't rank results
+- Use GROUP BY and aggregate functions for counting/analysis
+- For long listings use format "csv" and only the columns you need; read further pages with next only if the answer needs them
+${SQL_PLAN_FEEDBACK ? '- events and comments are large: check queries over them with explain, and filter on indexed columns when query warns about a full scan\n' : ''}- A rejected or failed query returns {"error", "message", "hint"} - fix the query using the hint and retry`;
 
 export async function runSqlAgent(
   question: string,
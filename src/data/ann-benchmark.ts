@@ -0,0 +1,107 @@
+#!/usr/bin/env tsx
+/**
+ * Recall benchmark for the IVF index: compares ANN top-k against exact search for a
+ * sample of stored vectors used as queries, across several probe counts.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import {
+  ANN_PATH,
+  annCandidates,
+  buildAnnIndex,
+  defaultProbeCount,
+  dot,
+  normalizeRows,
+  readAnnIndex,
+} from './ann.js';
+import { EMBEDDINGS_PATH, readEmbeddingIndex } from './embeddings.js';
+
+const DEFAULT_K = 10;
+const DEFAULT_QUERIES = 200;
+
+// Rows of the top `k` by dot product among `rows`, excluding the query itself
+function topK(
+  vectors: Float32Array,
+  dim: number,
+  query: number,
+  rows: Iterable<number>,
+  k: number,
+) {
+  const queryVector = vectors.subarray(query * dim, (query + 1) * dim);
+  const scored: Array<{ row: number; score: number }> = [];
+  for (const row of rows) {
+    if (row !== query) scored.push({ row, score: dot(queryVector, vectors, row, dim) });
+  }
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map((s) => s.row);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const k = parseInt(args.find((a) => a.startsWith('--k='))?.split('=')[1] || '', 10) || DEFAULT_K;
+  const queryCount =
+    parseInt(args.find((a) => a.startsWith('--queries='))?.split('=')[1] || '', 10) ||
+    DEFAULT_QUERIES;
+
+  const index = readEmbeddingIndex();
+  if (!index || !existsSync(EMBEDDINGS_PATH)) {
+    console.error('Embeddings not found. Run `pnpm embed` first.');
+    process.exit(1);
+  }
+
+  const buffer = readFileSync(EMBEDDINGS_PATH);
+  const vectors = new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4);
+  const dim = index.dimension;
+  const count = vectors.length / dim;
+  if (!index.normalized) normalizeRows(vectors, dim);
+
+  let stored = readAnnIndex();
+  if (stored && stored.count !== count) stored = null;
+  if (!stored) console.log(`No up-to-date ANN index at ${ANN_PATH}, building one in memory...`);
+  const ann = stored ?? buildAnnIndex(vectors, dim);
+
+  // Evenly spaced stored vectors stand in for queries
+  const queries = Array.from({ length: Math.min(queryCount, count) }, (_, i) =>
+    Math.floor((i * count) / Math.min(queryCount, count)),
+  );
+  const allRows = Array.from({ length: count }, (_, i) => i);
+
+  console.log(`${count} vectors, ${ann.nlist} lists, ${queries.length} queries, recall@${k}\n`);
+
+  let start = Date.now();
+  const exact = queries.map((q) => topK(vectors, dim, q, allRows, k));
+  const exactMs = (Date.now() - start) / queries.length;
+
+  const probeCounts = [1, 2, 4, 8, 16, 32, 64, defaultProbeCount(ann.nlist)]
+    .filter((n, i, all) => n <= ann.nlist && all.indexOf(n) === i)
+    .sort((a, b) => a - b);
+
+  const rows = probeCounts.map((nprobe) => {
+    let hits = 0;
+    let scanned = 0;
+    start = Date.now();
+    queries.forEach((q, i) => {
+      const candidates = annCandidates(ann, vectors.subarray(q * dim, (q + 1) * dim), nprobe);
+      scanned += candidates.length;
+      const found = new Set(topK(vectors, dim, q, candidates, k));
+      hits += exact[i].filter((row) => found.has(row)).length;
+    });
+    const ms = (Date.now() - start) / queries.length;
+    const expected = exact.reduce((sum, e) => sum + e.length, 0);
+
+    return {
+      nprobe: nprobe === defaultProbeCount(ann.nlist) ? `${nprobe} (default)` : String(nprobe),
+      recall: expected > 0 ? (hits / expected).toFixed(3) : 'n/a',
+      'scanned %': ((scanned / queries.length / count) * 100).toFixed(1),
+      'ms/query': ms.toFixed(2),
+      speedup: ms > 0 ? `${(exactMs / ms).toFixed(1)}x` : 'n/a',
+    };
+  });
+
+  console.log(`Exact search: ${exactMs.toFixed(2)} ms/query`);
+  console.table(rows);
+}
+
+main();
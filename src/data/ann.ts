@@ -0,0 +1,190 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+// Inverted-file (IVF) approximate nearest-neighbour index over the vectors in embeddings.bin.
+// Vectors are clustered with k-means; a search only scans the clusters whose centroids are
+// closest to the query instead of every vector.
+export const ANN_PATH = join(import.meta.dirname, '../../data/embeddings-ivf.bin');
+
+// Binary layout (little-endian): u32 header [version, dimension, nlist, count], then
+// f32 centroids [nlist * dimension], u32 list sizes [nlist], u32 vector offsets [count]
+const FORMAT_VERSION = 1;
+const HEADER_WORDS = 4;
+
+// k-means trains on a sample of at most this many points per centroid
+const TRAINING_POINTS_PER_LIST = 64;
+const KMEANS_ITERATIONS = 10;
+
+export interface AnnIndex {
+  dimension: number;
+  count: number;
+  nlist: number;
+  centroids: Float32Array;
+  lists: Uint32Array[]; // vector offsets (row numbers in embeddings.bin) per cluster
+}
+
+export function normalize(vector: ArrayLike<number>): Float32Array {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm) || 1;
+
+  const result = new Float32Array(vector.length);
+  for (let i = 0; i < vector.length; i++) result[i] = vector[i] / norm;
+  return result;
+}
+
+// Normalize every row of a row-major matrix in place
+export function normalizeRows(vectors: Float32Array, dim: number) {
+  for (let offset = 0; offset < vectors.length; offset += dim) {
+    vectors.set(normalize(vectors.subarray(offset, offset + dim)), offset);
+  }
+}
+
+// Dot product of `a` with row `row` of `matrix`; equals cosine similarity for unit vectors
+export function dot(a: ArrayLike<number>, matrix: Float32Array, row: number, dim: number): number {
+  const base = row * dim;
+  let sum = 0;
+  for (let i = 0; i < dim; i++) sum += a[i] * matrix[base + i];
+  return sum;
+}
+
+// Default number of clusters: ~sqrt(N), the usual IVF rule of thumb
+export function defaultListCount(count: number): number {
+  return Math.max(1, Math.round(Math.sqrt(count)));
+}
+
+// Default number of clusters probed per query; the recall benchmark shows the tradeoff
+export function defaultProbeCount(nlist: number): number {
+  return Math.max(1, Math.ceil(nlist / 8));
+}
+
+function nearestCentroid(
+  vectors: Float32Array,
+  row: number,
+  centroids: Float32Array,
+  nlist: number,
+  dim: number,
+): number {
+  const vector = vectors.subarray(row * dim, (row + 1) * dim);
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let c = 0; c < nlist; c++) {
+    const score = dot(vector, centroids, c, dim);
+    if (score > bestScore) {
+      bestScore = score;
+      best = c;
+    }
+  }
+  return best;
+}
+
+// Deterministic sample of `size` distinct rows out of `count`, evenly strided
+function sampleRows(count: number, size: number): number[] {
+  const step = count / size;
+  return Array.from({ length: size }, (_, i) => Math.floor(i * step));
+}
+
+/**
+ * Build an IVF index over unit-length vectors with spherical k-means (centroids are
+ * re-normalized each iteration, so nearest centroid = highest dot product).
+ */
+export function buildAnnIndex(vectors: Float32Array, dim: number, nlist?: number): AnnIndex {
+  const count = vectors.length / dim;
+  const lists = Math.min(nlist ?? defaultListCount(count), Math.max(1, count));
+
+  const training = sampleRows(count, Math.min(count, lists * TRAINING_POINTS_PER_LIST));
+  const centroids = new Float32Array(lists * dim);
+  sampleRows(training.length, lists).forEach((i, c) => {
+    const row = training[i];
+    centroids.set(vectors.subarray(row * dim, (row + 1) * dim), c * dim);
+  });
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = new Float32Array(lists * dim);
+    const sizes = new Uint32Array(lists);
+    for (const row of training) {
+      const c = nearestCentroid(vectors, row, centroids, lists, dim);
+      sizes[c]++;
+      for (let i = 0; i < dim; i++) sums[c * dim + i] += vectors[row * dim + i];
+    }
+    for (let c = 0; c < lists; c++) {
+      // Empty clusters keep their previous centroid
+      if (sizes[c] === 0) continue;
+      centroids.set(normalize(sums.subarray(c * dim, (c + 1) * dim)), c * dim);
+    }
+  }
+
+  const assignments: number[][] = Array.from({ length: lists }, () => []);
+  for (let row = 0; row < count; row++) {
+    assignments[nearestCentroid(vectors, row, centroids, lists, dim)].push(row);
+  }
+
+  return {
+    dimension: dim,
+    count,
+    nlist: lists,
+    centroids,
+    lists: assignments.map((rows) => Uint32Array.from(rows)),
+  };
+}
+
+export function writeAnnIndex(index: AnnIndex, path = ANN_PATH) {
+  const header = Uint32Array.from([FORMAT_VERSION, index.dimension, index.nlist, index.count]);
+  const sizes = Uint32Array.from(index.lists.map((list) => list.length));
+  const offsets = new Uint32Array(index.count);
+  let position = 0;
+  for (const list of index.lists) {
+    offsets.set(list, position);
+    position += list.length;
+  }
+
+  writeFileSync(
+    path,
+    Buffer.concat(
+      [header, index.centroids, sizes, offsets].map((a) =>
+        Buffer.from(a.buffer, a.byteOffset, a.byteLength),
+      ),
+    ),
+  );
+}
+
+export function readAnnIndex(path = ANN_PATH): AnnIndex | null {
+  if (!existsSync(path)) return null;
+
+  const buffer = readFileSync(path);
+  // Copy into an aligned buffer so typed-array views can start at any 4-byte offset
+  const words = new Uint32Array(new Uint8Array(buffer).buffer);
+  const [version, dimension, nlist, count] = words.subarray(0, HEADER_WORDS);
+  if (version !== FORMAT_VERSION) return null;
+
+  let position = HEADER_WORDS;
+  const centroids = new Float32Array(words.buffer, position * 4, nlist * dimension);
+  position += nlist * dimension;
+  const sizes = words.subarray(position, position + nlist);
+  position += nlist;
+
+  const lists: Uint32Array[] = [];
+  for (const size of sizes) {
+    lists.push(words.subarray(position, position + size));
+    position += size;
+  }
+
+  return { dimension, count, nlist, centroids, lists };
+}
+
+/**
+ * Rows of the `nprobe` clusters closest to `query` (a unit vector). Callers score these
+ * candidates exactly; vectors in other clusters are never looked at.
+ */
+export function annCandidates(index: AnnIndex, query: ArrayLike<number>, nprobe: number): number[] {
+  const byCloseness = Array.from({ length: index.nlist }, (_, c) => ({
+    c,
+    score: dot(query, index.centroids, c, index.dimension),
+  })).sort((a, b) => b.score - a.score);
+
+  const rows: number[] = [];
+  for (const { c } of byCloseness.slice(0, nprobe)) {
+    for (const row of index.lists[c]) rows.push(row);
+  }
+  return rows;
+}
@@ -0,0 +1,135 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import type { CodemodeData } from './writers/codemode.js';
+
+// Codemode data is stored as NDJSON shards per entity plus a manifest, so readers can load
+// one entity at a time and never parse a single document larger than V8's string limit
+export const CODEMODE_DIR = join(import.meta.dirname, '../../data/codemode');
+// The single-document format written before sharding; migrated on the next write
+export const LEGACY_CODEMODE_PATH = join(import.meta.dirname, '../../data/codemode.json');
+
+const MANIFEST_FILE = 'manifest.json';
+// Ambient TypeScript declarations of the rows (Repo, Issue, ...), written alongside the shards
+// so snippets are type-checked against the shape of the data they run on
+const DECLARATIONS_FILE = 'types.d.ts';
+const FORMAT_VERSION = 1;
+// A shard is closed once it reaches this size
+const SHARD_BYTES = 16 * 1024 * 1024;
+
+export type EntityKind = keyof CodemodeData;
+
+export const ENTITY_KINDS: EntityKind[] = [
+  'repos',
+  'users',
+  'issues',
+  'pulls',
+  'releases',
+  'stars',
+  'forks',
+  'refs',
+  'members',
+  'commits',
+];
+
+export interface ShardManifest {
+  version: number;
+  entities: Record<EntityKind, { count: number; shards: string[] }>; // shard file names
+}
+
+// Split rows into NDJSON shards of roughly SHARD_BYTES each
+function toShards(rows: unknown[]): string[] {
+  const shards: string[] = [];
+  let lines: string[] = [];
+  let bytes = 0;
+  for (const row of rows) {
+    const line = JSON.stringify(row);
+    lines.push(line);
+    bytes += Buffer.byteLength(line) + 1;
+    if (bytes >= SHARD_BYTES) {
+      shards.push(lines.join('\n') + '\n');
+      lines = [];
+      bytes = 0;
+    }
+  }
+  if (lines.length > 0) shards.push(lines.join('\n') + '\n');
+  return shards;
+}
+
+/**
+ * Write `data` as shards into `dir`, replacing what was there. The new set is written next to
+ * it first, so readers never see a half-written mix of old and new shards. Returns the total
+ * size in bytes.
+ */
+export function writeShards(data: CodemodeData, declarations: string, dir = CODEMODE_DIR): number {
+  const staging = `${dir}.part`;
+  rmSync(staging, { recursive: true, force: true });
+  mkdirSync(staging, { recursive: true });
+
+  let total = 0;
+  const entities = {} as ShardManifest['entities'];
+  for (const kind of ENTITY_KINDS) {
+    const files = toShards(data[kind]).map((text, i) => {
+      const file = `${kind}-${String(i).padStart(4, '0')}.ndjson`;
+      writeFileSync(join(staging, file), text);
+      total += Buffer.byteLength(text);
+      return file;
+    });
+    entities[kind] = { count: data[kind].length, shards: files };
+  }
+  const manifest: ShardManifest = { version: FORMAT_VERSION, entities };
+  writeFileSync(join(staging, MANIFEST_FILE), JSON.stringify(manifest, null, 2));
+  writeFileSync(join(staging, DECLARATIONS_FILE), declarations);
+
+  rmSync(dir, { recursive: true, force: true });
+  renameSync(staging, dir);
+  return total;
+}
+
+export function readShardManifest(dir = CODEMODE_DIR): ShardManifest | null {
+  const path = join(dir, MANIFEST_FILE);
+  if (!existsSync(path)) return null;
+  const manifest = JSON.parse(readFileSync(path, 'utf-8')) as ShardManifest;
+  return manifest.version === FORMAT_VERSION ? manifest : null;
+}
+
+// Missing for data written before the declarations were (re-run the codemode writer)
+export function readDeclarations(dir = CODEMODE_DIR): string | null {
+  const path = join(dir, DECLARATIONS_FILE);
+  return existsSync(path) ? readFileSync(path, 'utf-8') : null;
+}
+
+// Every row of one entity, parsed a line at a time
+export function readEntity<K extends EntityKind>(
+  kind: K,
+  manifest: ShardManifest,
+  dir = CODEMODE_DIR,
+): CodemodeData[K] {
+  const rows: unknown[] = [];
+  for (const file of manifest.entities[kind].shards) {
+    for (const line of readFileSync(join(dir, file), 'utf-8').split('\n')) {
+      if (line) rows.push(JSON.parse(line));
+    }
+  }
+  return rows as CodemodeData[K];
+}
+
+// Where readCodemodeData reads from: the shard directory, else the legacy file, else null
+export function codemodeDataPath(dir = CODEMODE_DIR): string | null {
+  if (readShardManifest(dir)) return dir;
+  if (existsSync(LEGACY_CODEMODE_PATH)) return LEGACY_CODEMODE_PATH;
+  return null;
+}
+
+// The whole dataset in memory, from shards or (before the first sharded write) the legacy file
+export function readCodemodeData(dir = CODEMODE_DIR): CodemodeData | null {
+  const manifest = readShardManifest(dir);
+  if (manifest) {
+    return Object.fromEntries(
+      ENTITY_KINDS.map((kind) => [kind, readEntity(kind, manifest, dir)]),
+    ) as unknown as CodemodeData;
+  }
+  if (existsSync(LEGACY_CODEMODE_PATH)) {
+    return JSON.parse(readFileSync(LEGACY_CODEMODE_PATH, 'utf-8')) as CodemodeData;
+  }
+  return null;
+}
@@ -0,0 +1,643 @@
+import { createReadStream, existsSync, readFileSync } from 'fs';
+import { createInterface } from 'readline';
+import { basename, dirname, join, resolve } from 'path';
+import type {
+  CommitFile,
+  CreateEvent,
+  DeleteEvent,
+  ForkEvent,
+  GitHubEvent,
+  Issue,
+  IssuesEvent,
+  IssueCommentEvent,
+  IssueFile,
+  MemberEvent,
+  PullFile,
+  PullRequest,
+  PullRequestEvent,
+  PullRequestReviewCommentEvent,
+  PullRequestReviewEvent,
+  PushEvent,
+  ReleaseEvent,
+  RepoActivity,
+  RepoFile,
+  TimelineEventFile,
+  UserFile,
+} from './schema.js';
+import { MANIFEST_PATH, RAW_DIR, compareHourKeys, readManifest } from './manifest.js';
+
+// Used when no manifest exists yet (single-hour setup from before `pnpm download` ranges)
+const LEGACY_RAW_FILE = join(RAW_DIR, '2024-01-15-15.json');
+
+// Only the first N raw events are kept for the events table to keep the DB manageable
+export const MAX_STORED_EVENTS = 100000;
+
+// The canonical, normalized dataset built from raw hour files. Every output backend
+// (filesystem, SQLite, codemode, embeddings) is written from this one model.
+export interface Dataset {
+  repos: Map<string, RepoFile>;
+  issues: Map<string, IssueFile>; // key: "owner/repo#number"
+  pulls: Map<string, PullFile>; // key: "owner/repo#number"
+  users: Map<string, UserFile>;
+  activity: Map<string, RepoActivity>; // key: "owner/repo"
+  commits: Map<string, CommitFile>; // key: "owner/repo@sha"
+  commentIds: Set<number>;
+  reviewIds: Set<number>;
+  events: GitHubEvent[];
+  maxEvents: number;
+  // Incremental mode: entities written by earlier runs, loaded on first touch
+  existing: ExistingOutputs | null;
+}
+
+export interface ExistingOutputs {
+  repo(repoName: string): RepoFile | null;
+  issue(key: string): IssueFile | null;
+  pull(key: string): PullFile | null;
+  user(login: string): UserFile | null;
+  activity(repoName: string): RepoActivity | null;
+  commit(key: string): CommitFile | null;
+}
+
+export interface FileStats {
+  file: string;
+  events: number;
+  malformed: number;
+  newIssues: number;
+  newPulls: number;
+  newComments: number;
+  newReviews: number;
+  newReleases: number;
+  newStars: number;
+  newForks: number;
+  newCommits: number;
+  timelineEvents: number;
+  stateChanges: number;
+  ms: number;
+}
+
+export function createDataset(
+  existing: ExistingOutputs | null = null,
+  maxEvents = MAX_STORED_EVENTS,
+): Dataset {
+  return {
+    repos: new Map(),
+    issues: new Map(),
+    pulls: new Map(),
+    users: new Map(),
+    activity: new Map(),
+    commits: new Map(),
+    commentIds: new Set(),
+    reviewIds: new Set(),
+    events: [],
+    maxEvents,
+    existing,
+  };
+}
+
+export function readJsonIfExists<T>(path: string): T | null {
+  return existsSync(path) ? (JSON.parse(readFileSync(path, 'utf-8')) as T) : null;
+}
+
+// The issue/pull for `key`, pulling it in from a previous run's output if needed
+function loadIssue(dataset: Dataset, key: string): IssueFile | undefined {
+  if (!dataset.issues.has(key) && dataset.existing) {
+    const issue = dataset.existing.issue(key);
+    if (issue) {
+      // Outputs written before timelines were captured have no timeline field
+      issue.timeline ??= [];
+      dataset.issues.set(key, issue);
+      issue.comments.forEach((c) => dataset.commentIds.add(c.id));
+    }
+  }
+  return dataset.issues.get(key);
+}
+
+function loadPull(dataset: Dataset, key: string): PullFile | undefined {
+  if (!dataset.pulls.has(key) && dataset.existing) {
+    const pull = dataset.existing.pull(key);
+    if (pull) {
+      // Outputs written before reviews/timelines were captured lack those fields
+      pull.reviews ??= [];
+      pull.timeline ??= [];
+      dataset.pulls.set(key, pull);
+      pull.comments.forEach((c) => dataset.commentIds.add(c.id));
+      pull.reviews.forEach((r) => dataset.reviewIds.add(r.id));
+    }
+  }
+  return dataset.pulls.get(key);
+}
+
+function getOrCreateActivity(dataset: Dataset, repoName: string): RepoActivity {
+  if (!dataset.activity.has(repoName) && dataset.existing) {
+    const activity = dataset.existing.activity(repoName);
+    if (activity) dataset.activity.set(repoName, activity);
+  }
+  if (!dataset.activity.has(repoName)) {
+    dataset.activity.set(repoName, { releases: [], stars: [], forks: [], refs: [], members: [] });
+  }
+  return dataset.activity.get(repoName)!;
+}
+
+function getOrCreateUser(dataset: Dataset, login: string, id: number): UserFile {
+  if (!dataset.users.has(login) && dataset.existing) {
+    const user = dataset.existing.user(login);
+    if (user) dataset.users.set(login, user);
+  }
+  if (!dataset.users.has(login)) {
+    dataset.users.set(login, {
+      id,
+      login,
+      issues_opened: 0,
+      prs_opened: 0,
+      comments_made: 0,
+    });
+  }
+  return dataset.users.get(login)!;
+}
+
+function getOrCreateRepo(dataset: Dataset, repoName: string, repoId: number): RepoFile {
+  if (!dataset.repos.has(repoName) && dataset.existing) {
+    const repo = dataset.existing.repo(repoName);
+    if (repo) dataset.repos.set(repoName, repo);
+  }
+  if (!dataset.repos.has(repoName)) {
+    const [owner, name] = repoName.split('/');
+    dataset.repos.set(repoName, {
+      id: repoId,
+      owner,
+      name,
+      full_name: repoName,
+    });
+  }
+  return dataset.repos.get(repoName)!;
+}
+
+// Apply an issue snapshot. Snapshots older than what we already hold are ignored so
+// that a late comment event carrying a stale issue can't undo a close/reopen.
+function upsertIssue(dataset: Dataset, key: string, issue: Issue, stats: FileStats) {
+  const existing = loadIssue(dataset, key);
+  if (!existing) {
+    dataset.issues.set(key, {
+      id: issue.id,
+      number: issue.number,
+      title: issue.title,
+      body: issue.body,
+      state: issue.state,
+      author: issue.user.login,
+      labels: issue.labels.map((l) => l.name),
+      created_at: issue.created_at,
+      updated_at: issue.updated_at,
+      closed_at: issue.closed_at,
+      comments: [],
+      timeline: [],
+    });
+    stats.newIssues++;
+    return;
+  }
+
+  if (issue.updated_at < existing.updated_at) return;
+
+  if (existing.state !== issue.state) stats.stateChanges++;
+  existing.title = issue.title;
+  existing.body = issue.body;
+  existing.state = issue.state;
+  existing.labels = issue.labels.map((l) => l.name);
+  existing.updated_at = issue.updated_at;
+  existing.closed_at = issue.closed_at;
+}
+
+function upsertPull(dataset: Dataset, key: string, pr: PullRequest, stats: FileStats) {
+  const existing = loadPull(dataset, key);
+  if (!existing) {
+    dataset.pulls.set(key, {
+      id: pr.id,
+      number: pr.number,
+      title: pr.title,
+      body: pr.body,
+      state: pr.state,
+      author: pr.user.login,
+      merged: pr.merged,
+      merged_at: pr.merged_at,
+      created_at: pr.created_at,
+      updated_at: pr.updated_at,
+      comments: [],
+      reviews: [],
+      timeline: [],
+    });
+    stats.newPulls++;
+    return;
+  }
+
+  if (pr.updated_at < existing.updated_at) return;
+
+  if (existing.state !== pr.state || existing.merged !== pr.merged) stats.stateChanges++;
+  existing.title = pr.title;
+  existing.body = pr.body;
+  existing.state = pr.state;
+  // A merge is final; later snapshots never un-merge a PR
+  existing.merged = existing.merged || pr.merged;
+  existing.merged_at = pr.merged_at ?? existing.merged_at;
+  existing.updated_at = pr.updated_at;
+}
+
+// Timeline entries are recorded even when the event's snapshot is stale, and kept in
+// time order so late-arriving events land in the right place
+// Returns false for events already seen, like addComment
+function addTimelineEvent(
+  target: IssueFile | PullFile,
+  event: GitHubEvent,
+  action: string,
+  label: string | null,
+  stats: FileStats,
+): boolean {
+  if (target.timeline.some((t) => t.id === event.id)) return false;
+
+  const entry: TimelineEventFile = {
+    id: event.id,
+    action,
+    actor: event.actor.login,
+    label,
+    created_at: event.created_at,
+  };
+  target.timeline.push(entry);
+  target.timeline.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  stats.timelineEvents++;
+  return true;
+}
+
+// Returns false for comments already seen (e.g. the same hour listed twice)
+function addComment(
+  dataset: Dataset,
+  target: IssueFile | PullFile,
+  comment: IssueCommentEvent['payload']['comment'],
+  stats: FileStats,
+): boolean {
+  if (dataset.commentIds.has(comment.id)) return false;
+  dataset.commentIds.add(comment.id);
+
+  target.comments.push({
+    id: comment.id,
+    body: comment.body,
+    author: comment.user.login,
+    created_at: comment.created_at,
+  });
+  stats.newComments++;
+  return true;
+}
+
+// Reviews are upserted by id: a later "dismissed" or "edited" replaces the earlier state
+function upsertReview(
+  dataset: Dataset,
+  target: PullFile,
+  review: PullRequestReviewEvent['payload']['review'],
+  stats: FileStats,
+) {
+  const reviewFile = {
+    id: review.id,
+    author: review.user.login,
+    state: review.state,
+    body: review.body,
+    submitted_at: review.submitted_at,
+  };
+
+  if (!dataset.reviewIds.has(review.id)) {
+    dataset.reviewIds.add(review.id);
+    target.reviews.push(reviewFile);
+    stats.newReviews++;
+    return;
+  }
+
+  const index = target.reviews.findIndex((r) => r.id === review.id);
+  if (index !== -1) target.reviews[index] = reviewFile;
+}
+
+// Commits already written by an earlier run are left alone, so the first push of a SHA wins
+function addCommits(dataset: Dataset, event: PushEvent, stats: FileStats) {
+  const { ref, commits } = event.payload;
+  for (const commit of commits ?? []) {
+    const key = `${event.repo.name}@${commit.sha}`;
+    if (dataset.commits.has(key) || dataset.existing?.commit(key)) continue;
+
+    dataset.commits.set(key, {
+      sha: commit.sha,
+      message: commit.message,
+      author_name: commit.author.name,
+      author_email: commit.author.email,
+      pushed_by: event.actor.login,
+      ref,
+      pushed_at: event.created_at,
+    });
+    stats.newCommits++;
+  }
+}
+
+// Repo-level activity (releases, stars, forks, refs, members)
+function processActivity(dataset: Dataset, event: GitHubEvent, stats: FileStats) {
+  const actor = event.actor.login;
+
+  switch (event.type) {
+    case 'ReleaseEvent': {
+      const { release } = (event as ReleaseEvent).payload;
+      const { releases } = getOrCreateActivity(dataset, event.repo.name);
+      const releaseFile = {
+        id: release.id,
+        tag_name: release.tag_name,
+        name: release.name,
+        body: release.body,
+        author: release.author?.login ?? actor,
+        draft: release.draft,
+        prerelease: release.prerelease,
+        created_at: release.created_at,
+        published_at: release.published_at,
+      };
+      const index = releases.findIndex((r) => r.id === release.id);
+      if (index === -1) {
+        releases.push(releaseFile);
+        stats.newReleases++;
+      } else {
+        releases[index] = releaseFile;
+      }
+      break;
+    }
+
+    case 'WatchEvent': {
+      const { stars } = getOrCreateActivity(dataset, event.repo.name);
+      // A user can only star a repo once
+      if (!stars.some((s) => s.user === actor)) {
+        stars.push({ user: actor, starred_at: event.created_at });
+        stats.newStars++;
+      }
+      break;
+    }
+
+    case 'ForkEvent': {
+      const { forkee } = (event as ForkEvent).payload;
+      const { forks } = getOrCreateActivity(dataset, event.repo.name);
+      if (!forks.some((f) => f.id === forkee.id)) {
+        forks.push({
+          id: forkee.id,
+          full_name: forkee.full_name,
+          owner: forkee.owner.login,
+          forked_at: forkee.created_at ?? event.created_at,
+        });
+        stats.newForks++;
+      }
+      break;
+    }
+
+    case 'CreateEvent':
+    case 'DeleteEvent': {
+      const { ref, ref_type } = (event as CreateEvent | DeleteEvent).payload;
+      const action = event.type === 'CreateEvent' ? 'created' : 'deleted';
+      const { refs } = getOrCreateActivity(dataset, event.repo.name);
+      const duplicate = refs.some(
+        (r) =>
+          r.ref === ref &&
+          r.ref_type === ref_type &&
+          r.action === action &&
+          r.created_at === event.created_at,
+      );
+      if (!duplicate) {
+        refs.push({ ref, ref_type, action, actor, created_at: event.created_at });
+      }
+      break;
+    }
+
+    case 'MemberEvent': {
+      const { action, member } = (event as MemberEvent).payload;
+      const { members } = getOrCreateActivity(dataset, event.repo.name);
+      const duplicate = members.some(
+        (m) => m.login === member.login && m.action === action && m.created_at === event.created_at,
+      );
+      if (!duplicate) {
+        members.push({ login: member.login, action, actor, created_at: event.created_at });
+      }
+      break;
+    }
+  }
+}
+
+function processEvent(dataset: Dataset, event: GitHubEvent, stats: FileStats) {
+  // Track the repo
+  getOrCreateRepo(dataset, event.repo.name, event.repo.id);
+
+  // Track the actor
+  getOrCreateUser(dataset, event.actor.login, event.actor.id);
+
+  switch (event.type) {
+    case 'IssuesEvent': {
+      const e = event as IssuesEvent;
+      const key = `${event.repo.name}#${e.payload.issue.number}`;
+      const issue = e.payload.issue;
+
+      upsertIssue(dataset, key, issue, stats);
+      const added = addTimelineEvent(
+        dataset.issues.get(key)!,
+        event,
+        e.payload.action,
+        e.payload.label?.name ?? null,
+        stats,
+      );
+      // Counted once per opened event, even if the same hour is processed again
+      if (added && e.payload.action === 'opened') {
+        const user = getOrCreateUser(dataset, issue.user.login, issue.user.id);
+        user.issues_opened++;
+      }
+      break;
+    }
+
+    case 'IssueCommentEvent': {
+      const e = event as IssueCommentEvent;
+      const key = `${event.repo.name}#${e.payload.issue.number}`;
+      const comment = e.payload.comment;
+
+      upsertIssue(dataset, key, e.payload.issue, stats);
+      if (addComment(dataset, dataset.issues.get(key)!, comment, stats)) {
+        const user = getOrCreateUser(dataset, comment.user.login, comment.user.id);
+        user.comments_made++;
+      }
+      break;
+    }
+
+    case 'PullRequestEvent': {
+      const e = event as PullRequestEvent;
+      const key = `${event.repo.name}#${e.payload.number}`;
+      const pr = e.payload.pull_request;
+
+      upsertPull(dataset, key, pr, stats);
+      const added = addTimelineEvent(
+        dataset.pulls.get(key)!,
+        event,
+        e.payload.action === 'closed' && pr.merged ? 'merged' : e.payload.action,
+        e.payload.label?.name ?? null,
+        stats,
+      );
+      if (added && e.payload.action === 'opened') {
+        const user = getOrCreateUser(dataset, pr.user.login, pr.user.id);
+        user.prs_opened++;
+      }
+      break;
+    }
+
+    case 'PullRequestReviewCommentEvent': {
+      const e = event as PullRequestReviewCommentEvent;
+      const key = `${event.repo.name}#${e.payload.pull_request.number}`;
+      const comment = e.payload.comment;
+
+      upsertPull(dataset, key, e.payload.pull_request, stats);
+      if (addComment(dataset, dataset.pulls.get(key)!, comment, stats)) {
+        const user = getOrCreateUser(dataset, comment.user.login, comment.user.id);
+        user.comments_made++;
+      }
+      break;
+    }
+
+    case 'PullRequestReviewEvent': {
+      const e = event as PullRequestReviewEvent;
+      const key = `${event.repo.name}#${e.payload.pull_request.number}`;
+
+      upsertPull(dataset, key, e.payload.pull_request, stats);
+      upsertReview(dataset, dataset.pulls.get(key)!, e.payload.review, stats);
+      break;
+    }
+
+    case 'PushEvent':
+      addCommits(dataset, event as PushEvent, stats);
+      break;
+
+    default:
+      processActivity(dataset, event, stats);
+  }
+
+  // Store events up to the cap
+  if (dataset.events.length < dataset.maxEvents) {
+    dataset.events.push(event);
+  }
+}
+
+// Raw files to process, oldest hour first: --files=a.json,b.json, else the manifest
+export function resolveInputFiles(args: string[]): string[] {
+  const filesArg = args.find((a) => a.startsWith('--files='))?.split('=')[1];
+  if (filesArg) {
+    // The same file listed twice (even by different relative paths) is read once
+    const files = [
+      ...new Set(
+        filesArg
+          .split(',')
+          .filter((f) => f.trim())
+          .map((f) => resolve(f)),
+      ),
+    ];
+    const hourOf = (f: string) => basename(f).replace(/\.json$/, '');
+    const isHour = (f: string) => /^\d{4}-\d{2}-\d{2}-\d{1,2}$/.test(hourOf(f));
+    if (files.every(isHour)) {
+      files.sort((a, b) => compareHourKeys(hourOf(a), hourOf(b)));
+    }
+    return files;
+  }
+
+  const manifestArg = args.find((a) => a.startsWith('--manifest='))?.split('=')[1];
+  const manifestPath = manifestArg ? resolve(manifestArg) : MANIFEST_PATH;
+  if (manifestArg || existsSync(manifestPath)) {
+    const { entries } = readManifest(manifestPath);
+    return entries.map((e) => join(dirname(manifestPath), e.file));
+  }
+
+  return [LEGACY_RAW_FILE];
+}
+
+async function processFile(dataset: Dataset, file: string): Promise<FileStats> {
+  console.log('Reading events from:', file);
+  const startTime = Date.now();
+  const stats: FileStats = {
+    file: basename(file),
+    events: 0,
+    malformed: 0,
+    newIssues: 0,
+    newPulls: 0,
+    newComments: 0,
+    newReviews: 0,
+    newReleases: 0,
+    newStars: 0,
+    newForks: 0,
+    newCommits: 0,
+    timelineEvents: 0,
+    stateChanges: 0,
+    ms: 0,
+  };
+
+  const fileStream = createReadStream(file);
+  const rl = createInterface({
+    input: fileStream,
+    crlfDelay: Infinity,
+  });
+
+  for await (const line of rl) {
+    if (!line.trim()) continue;
+    let event: GitHubEvent;
+    try {
+      event = JSON.parse(line) as GitHubEvent;
+    } catch {
+      // Skip malformed lines
+      stats.malformed++;
+      continue;
+    }
+    processEvent(dataset, event, stats);
+    stats.events++;
+    if (stats.events % 100000 === 0) {
+      console.log(`Processed ${stats.events} events...`);
+    }
+  }
+
+  stats.ms = Date.now() - startTime;
+  return stats;
+}
+
+export async function buildDataset(dataset: Dataset, files: string[]): Promise<FileStats[]> {
+  const missing = files.filter((f) => !existsSync(f));
+  if (missing.length > 0) {
+    throw new Error(
+      `Raw file(s) not found:\n  ${missing.join('\n  ')}\nRun \`pnpm download\` first.`,
+    );
+  }
+
+  const allStats: FileStats[] = [];
+  for (const file of files) {
+    allStats.push(await processFile(dataset, file));
+  }
+
+  console.log('\nPer-file stats:');
+  console.table(
+    allStats.map((s) => ({
+      file: s.file,
+      events: s.events,
+      malformed: s.malformed,
+      'new issues': s.newIssues,
+      'new pulls': s.newPulls,
+      'new comments': s.newComments,
+      'new reviews': s.newReviews,
+      'new releases': s.newReleases,
+      'new stars': s.newStars,
+      'new forks': s.newForks,
+      'new commits': s.newCommits,
+      'timeline events': s.timelineEvents,
+      'state changes': s.stateChanges,
+      seconds: (s.ms / 1000).toFixed(1),
+    })),
+  );
+
+  const total = allStats.reduce((sum, s) => sum + s.events, 0);
+  console.log(`\nTotal events processed: ${total} across ${files.length} file(s)`);
+  if (dataset.existing) {
+    console.log(
+      `Touched: ${dataset.repos.size} repos, ${dataset.issues.size} issues, ${dataset.pulls.size} pull requests, ${dataset.users.size} users`,
+    );
+  } else {
+    console.log(`Unique repos: ${dataset.repos.size}`);
+    console.log(`Issues: ${dataset.issues.size}`);
+    console.log(`Pull requests: ${dataset.pulls.size}`);
+    console.log(`Users: ${dataset.users.size}`);
+    console.log(`Commits: ${dataset.commits.size}`);
+  }
+  return allStats;
+}
@@ -1,54 +1,145 @@
-import { createWriteStream, existsSync, mkdirSync } from 'fs';
+import {
+  createReadStream,
+  createWriteStream,
+  existsSync,
+  mkdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+} from 'fs';
 import { createGunzip } from 'zlib';
 import { pipeline } from 'stream/promises';
-import { Readable } from 'stream';
 import { join } from 'path';
+import {
+  RAW_DIR,
+  MANIFEST_PATH,
+  compareHourKeys,
+  expandHourRange,
+  formatHour,
+  parseHour,
+  readManifest,
+  writeManifest,
+  type ArchiveHour,
+  type ManifestEntry,
+} from './manifest.js';
+import { createSource, sha256File, type ArchiveSource } from './sources.js';
 
-const DATA_DIR = join(import.meta.dirname, '../../data/raw');
+const DATA_DIR = RAW_DIR;
+const DEFAULT_CONCURRENCY = 4;
+
+// Using 2024-01-15 hour 15 (3 PM UTC) when no hours are given - typically high activity
+const DEFAULT_HOUR: ArchiveHour = { year: 2024, month: 1, day: 15, hour: 15 };
 
 // GH Archive stores hourly snapshots at:
 // https://data.gharchive.org/{year}-{month}-{day}-{hour}.json.gz
-// Let's download a recent hour with good activity
+// --source can point at a local mirror directory or HTTP stand-in with the same layout
 
 async function downloadHour(
-  year: number,
-  month: number,
-  day: number,
-  hour: number,
-): Promise<string> {
-  const paddedMonth = String(month).padStart(2, '0');
-  const paddedDay = String(day).padStart(2, '0');
-  const filename = `${year}-${paddedMonth}-${paddedDay}-${hour}.json`;
-  const url = `https://data.gharchive.org/${filename}.gz`;
+  source: ArchiveSource,
+  { year, month, day, hour }: ArchiveHour,
+  previous?: ManifestEntry,
+): Promise<ManifestEntry> {
+  const key = formatHour({ year, month, day, hour });
+  const filename = `${key}.json`;
   const outputPath = join(DATA_DIR, filename);
+  const compressedPartPath = `${outputPath}.gz.part`;
+  const decompressedPartPath = `${outputPath}.part`;
 
   if (existsSync(outputPath)) {
     console.log(`File already exists: ${outputPath}`);
-    return outputPath;
+    if (previous) return previous;
+    return {
+      hour: key,
+      file: filename,
+      bytes: statSync(outputPath).size,
+      sha256: null,
+      source: null,
+      downloaded_at: new Date().toISOString(),
+    };
   }
 
-  console.log(`Downloading ${url}...`);
+  console.log(`Fetching ${filename}.gz from ${source.description}...`);
+  await source.fetchCompressed(`${filename}.gz`, compressedPartPath);
 
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to download: ${response.status} ${response.statusText}`);
+  const sha256 = await sha256File(compressedPartPath);
+  const expected = await source.expectedChecksum(`${filename}.gz`);
+  if (expected && expected !== sha256) {
+    // Drop the part file so the next run starts clean instead of resuming corrupt bytes
+    unlinkSync(compressedPartPath);
+    throw new Error(`Checksum mismatch for ${filename}.gz: expected ${expected}, got ${sha256}`);
   }
 
-  if (!response.body) {
-    throw new Error('No response body');
+  // Decompress to a temp file so an interrupted run never leaves a truncated .json behind
+  const gunzip = createGunzip();
+  const writeStream = createWriteStream(decompressedPartPath);
+  await pipeline(createReadStream(compressedPartPath), gunzip, writeStream);
+
+  renameSync(decompressedPartPath, outputPath);
+  unlinkSync(compressedPartPath);
+  console.log(`Downloaded and decompressed to: ${outputPath}${expected ? ' (checksum OK)' : ''}`);
+
+  return {
+    hour: key,
+    file: filename,
+    bytes: statSync(outputPath).size,
+    sha256,
+    source: source.description,
+    downloaded_at: new Date().toISOString(),
+  };
+}
+
+// Run tasks with at most `limit` in flight
+async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = [];
+  let next = 0;
+
+  async function worker() {
+    while (next < items.length) {
+      const i = next++;
+      try {
+        results[i] = { status: 'fulfilled', value: await task(items[i]) };
+      } catch (reason) {
+        results[i] = { status: 'rejected', reason };
+      }
+    }
   }
 
-  // Create a readable stream from the response
-  const readable = Readable.fromWeb(response.body as any);
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, () => worker()));
+  return results;
+}
 
-  // Decompress and write to file
-  const gunzip = createGunzip();
-  const writeStream = createWriteStream(outputPath);
+// Resolve which hours to fetch from --from/--to and --hours
+function parseHours(args: string[]): ArchiveHour[] {
+  const from = args.find((a) => a.startsWith('--from='))?.split('=')[1];
+  const to = args.find((a) => a.startsWith('--to='))?.split('=')[1];
+  const list = args.find((a) => a.startsWith('--hours='))?.split('=')[1];
 
-  await pipeline(readable, gunzip, writeStream);
+  const hours: ArchiveHour[] = [];
+  if (from || to) {
+    if (!from) throw new Error('--to requires --from');
+    hours.push(...expandHourRange(parseHour(from), parseHour(to ?? from)));
+  }
+  if (list) {
+    hours.push(
+      ...list
+        .split(',')
+        .filter((h) => h.trim())
+        .map(parseHour),
+    );
+  }
+  if (hours.length === 0) {
+    hours.push(DEFAULT_HOUR);
+  }
 
-  console.log(`Downloaded and decompressed to: ${outputPath}`);
-  return outputPath;
+  // Deduplicate and fetch in chronological order
+  const unique = new Map(hours.map((h) => [formatHour(h), h]));
+  return Array.from(unique.keys())
+    .sort(compareHourKeys)
+    .map((key) => unique.get(key)!);
 }
 
 async function main() {
@@ -57,21 +148,64 @@ async function main() {
     mkdirSync(DATA_DIR, { recursive: true });
   }
 
-  // Download a specific hour - let's use a recent date with good activity
-  // Using 2024-01-15 hour 15 (3 PM UTC) - typically high activity
-  const year = 2024;
-  const month = 1;
-  const day = 15;
-  const hour = 15;
+  const args = process.argv.slice(2);
+  const concurrencyArg = args.find((a) => a.startsWith('--concurrency='))?.split('=')[1];
+  const concurrency = parseInt(concurrencyArg || '', 10) || DEFAULT_CONCURRENCY;
+
+  let hours: ArchiveHour[];
+  try {
+    hours = parseHours(args);
+  } catch (error) {
+    console.error((error as Error).message);
+    console.error(
+      'Usage: pnpm download [--from=YYYY-MM-DD-H --to=YYYY-MM-DD-H] [--hours=YYYY-MM-DD-H,...] [--concurrency=N] [--source=URL|DIR]',
+    );
+    process.exit(1);
+  }
 
+  let source: ArchiveSource;
   try {
-    const filePath = await downloadHour(year, month, day, hour);
-    console.log(`\nData downloaded to: ${filePath}`);
-    console.log('Run `pnpm transform` to process the data.');
+    source = createSource(
+      args.find((a) => a.startsWith('--source='))?.slice('--source='.length) ||
+        process.env.GHARCHIVE_SOURCE,
+    );
   } catch (error) {
-    console.error('Download failed:', error);
+    console.error((error as Error).message);
     process.exit(1);
   }
+
+  const previous = new Map(readManifest().entries.map((e) => [e.hour, e]));
+
+  console.log(
+    `Fetching ${hours.length} hour(s) from ${source.description} with concurrency ${concurrency}...`,
+  );
+
+  const results = await runWithConcurrency(hours, concurrency, (h) =>
+    downloadHour(source, h, previous.get(formatHour(h))),
+  );
+
+  const fetched: ManifestEntry[] = [];
+  const failed: string[] = [];
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      fetched.push(result.value);
+    } else {
+      const key = formatHour(hours[i]);
+      console.error(`Download failed for ${key}:`, result.reason);
+      failed.push(key);
+    }
+  });
+
+  const manifest = writeManifest(fetched);
+  console.log(`\nDownloaded ${fetched.length}/${hours.length} hour(s) to: ${DATA_DIR}`);
+  console.log(`Manifest (${manifest.entries.length} hours): ${MANIFEST_PATH}`);
+
+  if (failed.length > 0) {
+    console.error(`Failed hours: ${failed.join(', ')}. Re-run to resume.`);
+    process.exit(1);
+  }
+
+  console.log('Run `pnpm transform` to process the data.');
 }
 
 main();
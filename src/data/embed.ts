@@ -1,48 +1,34 @@
 #!/usr/bin/env tsx
 /**
- * Pre-compute embeddings for all issues and PRs
+ * Pre-compute embeddings for all issues, PRs (bodies and comments) and commit messages
  * Stores them in a binary file for fast loading
  */
 
 import Database from 'better-sqlite3';
 import { join } from 'path';
-import { writeFileSync, readFileSync, existsSync } from 'fs';
-import OpenAI from 'openai';
+import { embedItems } from './embeddings.js';
+import { createEmbeddingProvider } from './embedding-providers.js';
+import { commitEmbedItem } from './writers/embeddings.js';
 
 const DB_PATH = join(import.meta.dirname, '../../data/database.sqlite');
-const EMBEDDINGS_PATH = join(import.meta.dirname, '../../data/embeddings.bin');
-const INDEX_PATH = join(import.meta.dirname, '../../data/embeddings-index.json');
-
-const openai = new OpenAI();
-const EMBEDDING_DIM = 1536; // text-embedding-3-small dimension
-const BATCH_SIZE = 100;
-
-interface EmbeddingIndex {
-  items: Array<{
-    id: number;
-    type: 'issue' | 'pull';
-    repo: string;
-    number: number;
-    title: string;
-    body_preview: string | null;
-    offset: number; // Byte offset in binary file
-  }>;
-  dimension: number;
-  count: number;
-}
 
 async function main() {
+  // --provider=openai[:model] | hashing[:dim], else EMBEDDING_PROVIDER, else OpenAI
+  const args = process.argv.slice(2);
+  const provider = createEmbeddingProvider(
+    args.find((a) => a.startsWith('--provider='))?.split('=')[1] || undefined,
+  );
+
   console.log('Loading items from database...');
   const db = new Database(DB_PATH, { readonly: true });
 
-  // Get all issues and PRs
+  // Get all issues and PRs, titled or not, so every one of them is searchable
   const issues = db
     .prepare(
       `
-    SELECT i.id, i.title, i.body, i.number, r.full_name as repo
+    SELECT i.id, COALESCE(i.title, '') as title, i.body, i.number, r.full_name as repo
     FROM issues i
     JOIN repos r ON i.repo_id = r.id
-    WHERE i.title IS NOT NULL
   `,
     )
     .all() as Array<{
@@ -56,10 +42,9 @@ async function main() {
   const pulls = db
     .prepare(
       `
-    SELECT p.id, p.title, p.body, p.number, r.full_name as repo
+    SELECT p.id, COALESCE(p.title, '') as title, p.body, p.number, r.full_name as repo
     FROM pulls p
     JOIN repos r ON p.repo_id = r.id
-    WHERE p.title IS NOT NULL
   `,
     )
     .all() as Array<{
@@ -70,112 +55,64 @@ async function main() {
     repo: string;
   }>;
 
-  console.log(`Found ${issues.length} issues and ${pulls.length} PRs`);
-
-  const allItems = [
-    ...issues.map((i) => ({ ...i, type: 'issue' as const })),
-    ...pulls.map((p) => ({ ...p, type: 'pull' as const })),
-  ];
-
-  console.log(`Total: ${allItems.length} items to embed`);
-
-  // Check for existing embeddings
-  let existingIndex: EmbeddingIndex | null = null;
-  let existingEmbeddings: Float32Array | null = null;
-
-  if (existsSync(INDEX_PATH) && existsSync(EMBEDDINGS_PATH)) {
-    console.log('Found existing embeddings, checking for updates...');
-    existingIndex = JSON.parse(readFileSync(INDEX_PATH, 'utf-8'));
-    const buffer = readFileSync(EMBEDDINGS_PATH);
-    existingEmbeddings = new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4);
-
-    // Create a set of existing item keys
-    const existingKeys = new Set(existingIndex!.items.map((i) => `${i.type}-${i.id}`));
-    const newItems = allItems.filter((i) => !existingKeys.has(`${i.type}-${i.id}`));
-
-    if (newItems.length === 0) {
-      console.log('All items already have embeddings!');
-      return;
-    }
-
-    console.log(`Found ${newItems.length} new items to embed`);
-  }
-
-  // Prepare to collect embeddings
-  const index: EmbeddingIndex = {
-    items: existingIndex?.items || [],
-    dimension: EMBEDDING_DIM,
-    count: existingIndex?.count || 0,
-  };
-
-  // Start with existing embeddings or empty
-  const allEmbeddings: number[] = existingEmbeddings ? Array.from(existingEmbeddings) : [];
-
-  // Filter to items that need embedding
-  const existingKeys = new Set(index.items.map((i) => `${i.type}-${i.id}`));
-  const itemsToEmbed = allItems.filter((i) => !existingKeys.has(`${i.type}-${i.id}`));
-
-  console.log(`Embedding ${itemsToEmbed.length} items in batches of ${BATCH_SIZE}...`);
-
-  let processed = 0;
-  for (let i = 0; i < itemsToEmbed.length; i += BATCH_SIZE) {
-    const batch = itemsToEmbed.slice(i, i + BATCH_SIZE);
-    const texts = batch.map((item) => {
-      const text = `${item.title}\n${item.body || ''}`;
-      return text.slice(0, 8000); // Truncate for embedding model
-    });
-
-    try {
-      const response = await openai.embeddings.create({
-        model: 'text-embedding-3-small',
-        input: texts,
-      });
-
-      // Add to index and embeddings
-      for (let j = 0; j < batch.length; j++) {
-        const item = batch[j];
-        const embedding = response.data[j].embedding;
-
-        index.items.push({
-          id: item.id,
-          type: item.type,
-          repo: item.repo,
-          number: item.number,
-          title: item.title,
-          body_preview: item.body?.slice(0, 200) || null,
-          offset: allEmbeddings.length / EMBEDDING_DIM,
-        });
-
-        allEmbeddings.push(...embedding);
-        index.count++;
-      }
+  const commits = db
+    .prepare(
+      `
+    SELECT c.sha, c.message, r.full_name as repo
+    FROM commits c
+    JOIN repos r ON c.repo_id = r.id
+    WHERE c.message IS NOT NULL AND c.message != ''
+  `,
+    )
+    .all() as Array<{
+    sha: string;
+    message: string;
+    repo: string;
+  }>;
 
-      processed += batch.length;
-      const pct = ((processed / itemsToEmbed.length) * 100).toFixed(1);
-      process.stdout.write(`\r  ${processed}/${itemsToEmbed.length} (${pct}%)`);
-    } catch (e: any) {
-      console.error(`\nError embedding batch ${i}: ${e.message}`);
-      // Continue with next batch
-    }
+  const comments = db
+    .prepare(
+      `
+    SELECT id, issue_id, pull_id, body
+    FROM comments
+    WHERE body IS NOT NULL AND body != ''
+    ORDER BY created_at, id
+  `,
+    )
+    .all() as Array<{
+    id: number;
+    issue_id: number | null;
+    pull_id: number | null;
+    body: string;
+  }>;
 
-    // Small delay to avoid rate limits
-    if (i + BATCH_SIZE < itemsToEmbed.length) {
-      await new Promise((r) => setTimeout(r, 100));
-    }
+  // Group comments under their issue or PR
+  const issueComments = new Map<number, Array<{ id: number; body: string }>>();
+  const pullComments = new Map<number, Array<{ id: number; body: string }>>();
+  for (const { id, issue_id, pull_id, body } of comments) {
+    const [byParent, parentId] =
+      issue_id !== null ? [issueComments, issue_id] : [pullComments, pull_id!];
+    if (!byParent.has(parentId)) byParent.set(parentId, []);
+    byParent.get(parentId)!.push({ id, body });
   }
 
-  console.log('\n\nSaving embeddings...');
-
-  // Save binary embeddings
-  const embeddingsBuffer = Buffer.from(new Float32Array(allEmbeddings).buffer);
-  writeFileSync(EMBEDDINGS_PATH, embeddingsBuffer);
-  console.log(`  ${EMBEDDINGS_PATH} (${(embeddingsBuffer.length / 1024 / 1024).toFixed(1)} MB)`);
+  console.log(
+    `Found ${issues.length} issues, ${pulls.length} PRs, ${comments.length} comments and ${commits.length} commits`,
+  );
 
-  // Save index
-  writeFileSync(INDEX_PATH, JSON.stringify(index, null, 2));
-  console.log(`  ${INDEX_PATH}`);
+  db.close();
 
-  console.log(`\nDone! Embedded ${index.count} items.`);
+  await embedItems(
+    [
+      ...issues.map((i) => ({ ...i, type: 'issue' as const, comments: issueComments.get(i.id) })),
+      ...pulls.map((p) => ({ ...p, type: 'pull' as const, comments: pullComments.get(p.id) })),
+      ...commits.map((c) => commitEmbedItem(c.repo, c)),
+    ],
+    provider,
+  );
 }
 
-main().catch(console.error);
+main().catch((e) => {
+  console.error(e.message);
+  process.exit(1);
+});
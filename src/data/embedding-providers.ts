@@ -0,0 +1,127 @@
+import OpenAI from 'openai';
+
+const DEFAULT_OPENAI_MODEL = 'text-embedding-3-small';
+const DEFAULT_HASHING_DIM = 512;
+
+// Known output sizes, so the dimension is available before the first API call
+const OPENAI_DIMENSIONS: Record<string, number> = {
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+};
+
+// Turns text into vectors. `name` identifies the provider and model (e.g.
+// "openai:text-embedding-3-small", "hashing:512") and is recorded in the embedding
+// index, since vectors from different providers can't be compared.
+export interface EmbeddingProvider {
+  name: string;
+  dimension: number;
+  maxBatchSize: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+class OpenAIProvider implements EmbeddingProvider {
+  private client: OpenAI | null = null;
+  readonly maxBatchSize = 100;
+
+  constructor(private model: string) {
+    if (!(model in OPENAI_DIMENSIONS)) {
+      throw new Error(
+        `Unknown OpenAI embedding model "${model}". Known: ${Object.keys(OPENAI_DIMENSIONS).join(', ')}`,
+      );
+    }
+  }
+
+  get name(): string {
+    return `openai:${this.model}`;
+  }
+
+  get dimension(): number {
+    return OPENAI_DIMENSIONS[this.model];
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    // Created on first use so the hashing provider never needs OPENAI_API_KEY
+    this.client ??= new OpenAI();
+    const response = await this.client.embeddings.create({ model: this.model, input: texts });
+    return response.data.map((d) => d.embedding);
+  }
+}
+
+// FNV-1a, 32-bit
+function hash(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Offline, deterministic embedder: word unigrams and bigrams are hashed into a
+ * fixed-size vector (the "hashing trick"), with a second hash bit choosing the sign so
+ * collisions tend to cancel out. No semantics beyond shared words, but it runs on CPU
+ * with no network or model download, which is enough for tests and offline runs.
+ */
+class HashingProvider implements EmbeddingProvider {
+  readonly maxBatchSize = 1000;
+
+  constructor(readonly dimension: number) {
+    if (!Number.isInteger(dimension) || dimension <= 0) {
+      throw new Error(`Invalid hashing dimension "${dimension}"`);
+    }
+  }
+
+  get name(): string {
+    return `hashing:${this.dimension}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => {
+      const vector: number[] = Array.from({ length: this.dimension }, () => 0);
+      const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+      const features = [...words, ...words.slice(1).map((w, i) => `${words[i]} ${w}`)];
+      for (const feature of features) {
+        const h = hash(feature);
+        vector[h % this.dimension] += h & 0x80000000 ? -1 : 1;
+      }
+      return vector;
+    });
+  }
+}
+
+/**
+ * Resolve a provider spec: "openai[:model]" (the default) or "hashing[:dimension]".
+ * Falls back to EMBEDDING_PROVIDER when no spec is given.
+ */
+export function createEmbeddingProvider(spec = process.env.EMBEDDING_PROVIDER): EmbeddingProvider {
+  const [kind, option] = (spec || 'openai').split(':');
+  switch (kind) {
+    case 'openai':
+      return new OpenAIProvider(option || DEFAULT_OPENAI_MODEL);
+    case 'hashing':
+      return new HashingProvider(option ? Number(option) : DEFAULT_HASHING_DIM);
+    default:
+      throw new Error(
+        `Unknown embedding provider "${spec}". Use "openai[:model]" or "hashing[:dim]".`,
+      );
+  }
+}
+
+// Indexes written before providers were pluggable were always OpenAI's default model
+export const LEGACY_PROVIDER = `openai:${DEFAULT_OPENAI_MODEL}`;
+
+// Throw if an index built by one provider is about to be used with another
+export function assertCompatibleIndex(
+  index: { provider?: string; dimension: number },
+  provider: EmbeddingProvider,
+) {
+  const indexProvider = index.provider ?? LEGACY_PROVIDER;
+  if (indexProvider !== provider.name || index.dimension !== provider.dimension) {
+    throw new Error(
+      `Embedding index was built with ${indexProvider} (${index.dimension} dims) but the current provider is ${provider.name} (${provider.dimension} dims). ` +
+        `Set EMBEDDING_PROVIDER=${indexProvider}, or delete the embedding files and re-run \`pnpm embed\`.`,
+    );
+  }
+}
@@ -0,0 +1,341 @@
+import { createHash } from 'crypto';
+import { join } from 'path';
+import { writeFileSync, readFileSync, existsSync, renameSync } from 'fs';
+import {
+  ANN_PATH,
+  buildAnnIndex,
+  normalize,
+  normalizeRows,
+  readAnnIndex,
+  writeAnnIndex,
+} from './ann.js';
+import {
+  assertCompatibleIndex,
+  createEmbeddingProvider,
+  type EmbeddingProvider,
+} from './embedding-providers.js';
+
+export const EMBEDDINGS_PATH = join(import.meta.dirname, '../../data/embeddings.bin');
+export const INDEX_PATH = join(import.meta.dirname, '../../data/embeddings-index.json');
+
+// Long bodies and comments are split into pieces of about this many characters (~500
+// tokens), with some overlap so a sentence cut at a boundary still appears whole once
+const CHUNK_SIZE = 2000;
+const CHUNK_OVERLAP = 200;
+
+// A failing batch is retried with exponential backoff before the run gives up
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 1000;
+// Save progress every this many batches, so a crash loses at most that much work
+const CHECKPOINT_EVERY = 10;
+
+// Which part of its parent issue/PR/commit a vector was computed from
+export interface EmbeddingChunk {
+  source: 'body' | 'comment'; // body chunks of commits are pieces of the message
+  comment_id: number | null;
+  index: number; // position of the chunk within its body or comment
+  text: string;
+}
+
+// One entry per vector. Every chunk carries its parent's fields, so results can be
+// grouped back into issues, PRs and commits.
+export interface EmbeddingIndex {
+  items: Array<{
+    id: number | string; // commit SHA for commits
+    type: 'issue' | 'pull' | 'commit';
+    repo: string;
+    number: number | null; // null for commits
+    title: string;
+    body_preview: string | null;
+    chunk?: EmbeddingChunk; // missing in pre-chunking indexes: title + body truncated to 8000 chars
+    hash?: string; // of the embedded text, to spot chunks whose text changed
+    offset: number; // Byte offset in binary file
+  }>;
+  provider?: string; // e.g. "openai:text-embedding-3-small"; missing in pre-provider indexes
+  dimension: number;
+  count: number;
+  normalized?: boolean; // vectors are unit length, so cosine similarity is a dot product
+}
+
+// An issue, PR or commit to embed. Commits use the SHA as id and the message's
+// first line as title.
+export interface EmbedItem {
+  id: number | string;
+  type: 'issue' | 'pull' | 'commit';
+  repo: string;
+  number: number | null;
+  title: string;
+  body: string | null;
+  comments?: Array<{ id: number; body: string }>;
+}
+
+// Issue/PR ids are global, but the same commit SHA can show up in several repos (forks)
+const itemKey = (item: Pick<EmbedItem, 'id' | 'type' | 'repo'>) =>
+  item.type === 'commit' ? `commit-${item.repo}@${item.id}` : `${item.type}-${item.id}`;
+
+// The first body chunk shares its parent's key, so vectors from pre-chunking indexes
+// (which have no chunk) are kept rather than embedded again
+function chunkKey(item: Pick<EmbedItem, 'id' | 'type' | 'repo'>, chunk?: EmbeddingChunk) {
+  const key = itemKey(item);
+  if (!chunk || (chunk.source === 'body' && chunk.index === 0)) return key;
+  return chunk.source === 'body'
+    ? `${key}#body-${chunk.index}`
+    : `${key}#comment-${chunk.comment_id}-${chunk.index}`;
+}
+
+// Split `text` into pieces of at most `CHUNK_SIZE` characters, ending each at a paragraph,
+// line or word break when there is one in the second half of the piece
+function splitText(text: string): string[] {
+  const pieces: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    let end = Math.min(start + CHUNK_SIZE, text.length);
+    if (end < text.length) {
+      for (const separator of ['\n\n', '\n', ' ']) {
+        const at = text.lastIndexOf(separator, end - separator.length);
+        if (at > start + CHUNK_SIZE / 2) {
+          end = at + separator.length;
+          break;
+        }
+      }
+    }
+    pieces.push(text.slice(start, end).trim());
+    if (end === text.length) break;
+    start = end - CHUNK_OVERLAP;
+  }
+  return pieces.filter(Boolean);
+}
+
+// Every chunk of an item: its body (at least one chunk, even when empty) and each comment
+function chunksOf(item: EmbedItem): EmbeddingChunk[] {
+  const bodyPieces = splitText(item.body ?? '');
+  const chunks: EmbeddingChunk[] = (bodyPieces.length > 0 ? bodyPieces : ['']).map(
+    (text, index) => ({ source: 'body', comment_id: null, index, text }),
+  );
+  for (const comment of item.comments ?? []) {
+    splitText(comment.body).forEach((text, index) =>
+      chunks.push({ source: 'comment', comment_id: comment.id, index, text }),
+    );
+  }
+  return chunks;
+}
+
+export function readEmbeddingIndex(): EmbeddingIndex | null {
+  return existsSync(INDEX_PATH) ? JSON.parse(readFileSync(INDEX_PATH, 'utf-8')) : null;
+}
+
+type IndexEntry = EmbeddingIndex['items'][number];
+
+// A chunk waiting to be embedded, with the exact text sent to the provider
+interface PendingChunk {
+  item: EmbedItem;
+  chunk: EmbeddingChunk;
+  input: string;
+  hash: string;
+}
+
+export interface EmbedOptions {
+  // `allItems` is every item there is, so index entries of items missing from it are
+  // deleted. Incremental runs pass only the items they touched and set this to false.
+  complete?: boolean;
+}
+
+const contentHash = (text: string) => createHash('sha256').update(text).digest('hex').slice(0, 16);
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Write next to the target and rename over it, so a crash never leaves a truncated file
+function writeFileAtomic(path: string, data: string | Buffer) {
+  const partPath = `${path}.part`;
+  writeFileSync(partPath, data);
+  renameSync(partPath, path);
+}
+
+// The saved index and its vectors (normalized), or null if there are none to build on
+function loadExisting(provider: EmbeddingProvider) {
+  if (!existsSync(INDEX_PATH) || !existsSync(EMBEDDINGS_PATH)) return null;
+
+  console.log('Found existing embeddings, checking for updates...');
+  const index: EmbeddingIndex = JSON.parse(readFileSync(INDEX_PATH, 'utf-8'));
+  assertCompatibleIndex(index, provider);
+  const buffer = readFileSync(EMBEDDINGS_PATH);
+  if (buffer.byteLength !== index.count * index.dimension * 4) {
+    console.log('embeddings.bin does not match the index, embedding everything again');
+    return null;
+  }
+  const vectors = new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4);
+
+  // Vectors saved before normalization was introduced get normalized and re-saved below
+  if (!index.normalized) {
+    console.log('Normalizing existing embeddings...');
+    normalizeRows(vectors, index.dimension);
+  }
+
+  return { index, vectors };
+}
+
+async function embedWithRetry(provider: EmbeddingProvider, texts: string[]) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const vectors = await provider.embed(texts);
+      if (vectors.length !== texts.length) {
+        throw new Error(`expected ${texts.length} vectors, got ${vectors.length}`);
+      }
+      return vectors;
+    } catch (e: any) {
+      if (attempt >= MAX_ATTEMPTS) throw e;
+      const delay = RETRY_BASE_MS * 2 ** (attempt - 1);
+      console.error(`\n  Batch failed (${e.message}), retry ${attempt} in ${delay / 1000}s...`);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Bring the saved index in line with `allItems`: keep vectors whose chunk text is
+ * unchanged, embed new and changed chunks, and drop chunks that no longer exist.
+ * Progress is checkpointed, so a run that fails part-way resumes where it stopped.
+ */
+export async function embedItems(
+  allItems: EmbedItem[],
+  provider: EmbeddingProvider = createEmbeddingProvider(),
+  { complete = true }: EmbedOptions = {},
+) {
+  const pending = new Map<string, PendingChunk>();
+  for (const item of allItems) {
+    for (const chunk of chunksOf(item)) {
+      // The title gives every chunk, comments included, the context of what it belongs to
+      const input = `${item.title}\n${chunk.text}`;
+      pending.set(chunkKey(item, chunk), { item, chunk, input, hash: contentHash(input) });
+    }
+  }
+  console.log(
+    `Total: ${allItems.length} items (${pending.size} chunks) to embed with ${provider.name}`,
+  );
+
+  // Keep existing vectors whose chunk still exists with the same text. Entries saved
+  // before content hashing have no hash and are assumed unchanged.
+  const existing = loadExisting(provider);
+  const givenItems = new Set(allItems.map(itemKey));
+  const kept: IndexEntry[] = [];
+  let changed = 0;
+  let removed = 0;
+  for (const entry of existing?.index.items ?? []) {
+    const key = chunkKey(entry, entry.chunk);
+    const current = pending.get(key);
+    if (current && (!entry.hash || entry.hash === current.hash)) {
+      kept.push(entry);
+      pending.delete(key);
+    } else if (current) {
+      changed++;
+    } else if (complete || givenItems.has(itemKey(entry))) {
+      removed++;
+    } else {
+      kept.push(entry);
+    }
+  }
+  const chunksToEmbed = Array.from(pending.values());
+
+  if (existing) {
+    console.log(
+      `${kept.length} chunks up to date, ${chunksToEmbed.length - changed} new, ${changed} changed, ${removed} removed`,
+    );
+    if (chunksToEmbed.length === 0 && removed === 0 && existing.index.normalized) {
+      console.log('All items already have embeddings!');
+      if (readAnnIndex()?.count !== existing.index.count) {
+        saveAnnIndex(existing.vectors, existing.index.dimension);
+      }
+      return;
+    }
+  }
+
+  // Kept vectors are compacted to the front; new ones are appended as batches complete
+  const dim = provider.dimension;
+  const vectors = new Float32Array((kept.length + chunksToEmbed.length) * dim);
+  const index: EmbeddingIndex = {
+    items: [],
+    provider: provider.name,
+    dimension: dim,
+    count: 0,
+    normalized: true,
+  };
+  for (const entry of kept) {
+    const row = existing!.vectors.subarray(entry.offset * dim, (entry.offset + 1) * dim);
+    vectors.set(row, index.count * dim);
+    index.items.push({ ...entry, offset: index.count++ });
+  }
+
+  // Vectors first: an index never points past the end of the vectors it was saved with
+  const save = () => {
+    const saved = vectors.subarray(0, index.count * dim);
+    writeFileAtomic(EMBEDDINGS_PATH, Buffer.from(saved.buffer, saved.byteOffset, saved.byteLength));
+    writeFileAtomic(INDEX_PATH, JSON.stringify(index, null, 2));
+  };
+
+  const batchSize = provider.maxBatchSize;
+  console.log(`Embedding ${chunksToEmbed.length} chunks in batches of ${batchSize}...`);
+
+  let processed = 0;
+  for (let i = 0; i < chunksToEmbed.length; i += batchSize) {
+    const batch = chunksToEmbed.slice(i, i + batchSize);
+
+    let embedded: number[][];
+    try {
+      embedded = await embedWithRetry(
+        provider,
+        batch.map((c) => c.input),
+      );
+    } catch (e: any) {
+      save();
+      throw new Error(
+        `Embedding failed after ${MAX_ATTEMPTS} attempts: ${e.message}. ` +
+          `Saved ${index.count} chunks; re-run to continue.`,
+      );
+    }
+
+    batch.forEach(({ item, chunk, hash }, j) => {
+      vectors.set(normalize(embedded[j]), index.count * dim);
+      index.items.push({
+        id: item.id,
+        type: item.type,
+        repo: item.repo,
+        number: item.number,
+        title: item.title,
+        body_preview: item.body?.slice(0, 200) || null,
+        chunk,
+        hash,
+        offset: index.count++,
+      });
+    });
+
+    processed += batch.length;
+    const pct = ((processed / chunksToEmbed.length) * 100).toFixed(1);
+    process.stdout.write(`\r  ${processed}/${chunksToEmbed.length} (${pct}%)`);
+
+    if ((i / batchSize + 1) % CHECKPOINT_EVERY === 0) save();
+
+    // Small delay to avoid rate limits
+    if (i + batchSize < chunksToEmbed.length) {
+      await sleep(100);
+    }
+  }
+
+  console.log('\n\nSaving embeddings...');
+  save();
+  console.log(`  ${EMBEDDINGS_PATH} (${(vectors.byteLength / 1024 / 1024).toFixed(1)} MB)`);
+  console.log(`  ${INDEX_PATH}`);
+
+  saveAnnIndex(vectors, dim);
+
+  console.log(`\nDone! Embedded ${index.count} chunks.`);
+}
+
+// Rebuild the IVF index from scratch; clusters drift as items are added, so it isn't patched
+function saveAnnIndex(vectors: Float32Array, dim: number) {
+  console.log('Building ANN index...');
+  const startTime = Date.now();
+  const ann = buildAnnIndex(vectors, dim);
+  writeAnnIndex(ann);
+  const seconds = ((Date.now() - startTime) / 1000).toFixed(1);
+  console.log(`  ${ANN_PATH} (${ann.nlist} lists over ${ann.count} vectors, ${seconds}s)`);
+}
@@ -0,0 +1,110 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+export const RAW_DIR = join(import.meta.dirname, '../../data/raw');
+export const MANIFEST_PATH = join(RAW_DIR, 'manifest.json');
+
+// A single GH Archive hour, e.g. 2024-01-15 hour 15
+export interface ArchiveHour {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+}
+
+export interface ManifestEntry {
+  hour: string; // GH Archive key: "YYYY-MM-DD-H"
+  file: string; // Decompressed file name, relative to RAW_DIR
+  bytes: number;
+  sha256: string | null; // Of the compressed .json.gz as fetched
+  source: string | null; // URL or mirror directory it came from
+  downloaded_at: string;
+}
+
+export interface Manifest {
+  entries: ManifestEntry[];
+}
+
+// GH Archive does not zero-pad the hour: 2024-01-15-3.json.gz
+export function formatHour({ year, month, day, hour }: ArchiveHour): string {
+  const paddedMonth = String(month).padStart(2, '0');
+  const paddedDay = String(day).padStart(2, '0');
+  return `${year}-${paddedMonth}-${paddedDay}-${hour}`;
+}
+
+export function parseHour(value: string): ArchiveHour {
+  const match = /^(\d{4})-(\d{1,2})-(\d{1,2})-(\d{1,2})$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid hour "${value}", expected YYYY-MM-DD-H`);
+  }
+
+  const [year, month, day, hour] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hour));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day ||
+    date.getUTCHours() !== hour
+  ) {
+    throw new Error(`Invalid hour "${value}": no such date`);
+  }
+
+  return { year, month, day, hour };
+}
+
+function hourToTime({ year, month, day, hour }: ArchiveHour): number {
+  return Date.UTC(year, month - 1, day, hour);
+}
+
+function timeToHour(time: number): ArchiveHour {
+  const date = new Date(time);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+  };
+}
+
+// Every hour from `from` to `to`, inclusive
+export function expandHourRange(from: ArchiveHour, to: ArchiveHour): ArchiveHour[] {
+  const start = hourToTime(from);
+  const end = hourToTime(to);
+  if (end < start) {
+    throw new Error(`Range end ${formatHour(to)} is before start ${formatHour(from)}`);
+  }
+
+  const hours: ArchiveHour[] = [];
+  for (let t = start; t <= end; t += 60 * 60 * 1000) {
+    hours.push(timeToHour(t));
+  }
+  return hours;
+}
+
+export function compareHourKeys(a: string, b: string): number {
+  return hourToTime(parseHour(a)) - hourToTime(parseHour(b));
+}
+
+export function readManifest(path = MANIFEST_PATH): Manifest {
+  if (!existsSync(path)) {
+    return { entries: [] };
+  }
+  return JSON.parse(readFileSync(path, 'utf-8')) as Manifest;
+}
+
+// Merge new entries into the manifest, keeping it sorted chronologically
+export function writeManifest(entries: ManifestEntry[]): Manifest {
+  const byHour = new Map<string, ManifestEntry>();
+  for (const entry of readManifest().entries) {
+    byHour.set(entry.hour, entry);
+  }
+  for (const entry of entries) {
+    byHour.set(entry.hour, entry);
+  }
+
+  const manifest: Manifest = {
+    entries: Array.from(byHour.values()).sort((a, b) => compareHourKeys(a.hour, b.hour)),
+  };
+  writeFileSync(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+  return manifest;
+}
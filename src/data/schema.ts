@@ -77,8 +77,9 @@ export interface Comment {
 export interface IssuesEvent extends BaseEvent {
   type: 'IssuesEvent';
   payload: {
-    action: 'opened' | 'closed' | 'reopened';
+    action: 'opened' | 'closed' | 'reopened' | 'edited' | 'labeled' | 'unlabeled' | 'assigned';
     issue: Issue;
+    label?: { name: string }; // labeled/unlabeled only
   };
 }
 
@@ -94,9 +95,18 @@ export interface IssueCommentEvent extends BaseEvent {
 export interface PullRequestEvent extends BaseEvent {
   type: 'PullRequestEvent';
   payload: {
-    action: 'opened' | 'closed' | 'reopened' | 'merged';
+    action:
+      | 'opened'
+      | 'closed'
+      | 'reopened'
+      | 'merged'
+      | 'edited'
+      | 'labeled'
+      | 'unlabeled'
+      | 'synchronize';
     number: number;
     pull_request: PullRequest;
+    label?: { name: string }; // labeled/unlabeled only
   };
 }
 
@@ -128,12 +138,114 @@ export interface PushEvent extends BaseEvent {
   };
 }
 
+export interface Release {
+  id: number;
+  tag_name: string;
+  name: string | null;
+  body: string | null;
+  draft: boolean;
+  prerelease: boolean;
+  author: {
+    id: number;
+    login: string;
+  };
+  created_at: string;
+  published_at: string | null;
+}
+
+export interface Review {
+  id: number;
+  body: string | null;
+  state: string; // "approved" | "commented" | "changes_requested" | "dismissed"
+  user: {
+    id: number;
+    login: string;
+  };
+  submitted_at: string;
+}
+
+export interface ReleaseEvent extends BaseEvent {
+  type: 'ReleaseEvent';
+  payload: {
+    action: 'published' | 'created' | 'edited' | 'released';
+    release: Release;
+  };
+}
+
+// Despite the name, a WatchEvent is a star
+export interface WatchEvent extends BaseEvent {
+  type: 'WatchEvent';
+  payload: {
+    action: 'started';
+  };
+}
+
+export interface ForkEvent extends BaseEvent {
+  type: 'ForkEvent';
+  payload: {
+    forkee: {
+      id: number;
+      full_name: string;
+      owner: {
+        id: number;
+        login: string;
+      };
+      created_at: string;
+    };
+  };
+}
+
+export interface CreateEvent extends BaseEvent {
+  type: 'CreateEvent';
+  payload: {
+    ref: string | null; // null when ref_type is "repository"
+    ref_type: 'repository' | 'branch' | 'tag';
+    master_branch: string;
+    description: string | null;
+  };
+}
+
+export interface DeleteEvent extends BaseEvent {
+  type: 'DeleteEvent';
+  payload: {
+    ref: string;
+    ref_type: 'branch' | 'tag';
+  };
+}
+
+export interface PullRequestReviewEvent extends BaseEvent {
+  type: 'PullRequestReviewEvent';
+  payload: {
+    action: 'created' | 'submitted' | 'edited' | 'dismissed';
+    review: Review;
+    pull_request: PullRequest;
+  };
+}
+
+export interface MemberEvent extends BaseEvent {
+  type: 'MemberEvent';
+  payload: {
+    action: 'added' | 'removed' | 'edited';
+    member: {
+      id: number;
+      login: string;
+    };
+  };
+}
+
 export type GitHubEvent =
   | IssuesEvent
   | IssueCommentEvent
   | PullRequestEvent
   | PullRequestReviewCommentEvent
   | PushEvent
+  | ReleaseEvent
+  | WatchEvent
+  | ForkEvent
+  | CreateEvent
+  | DeleteEvent
+  | PullRequestReviewEvent
+  | MemberEvent
   | BaseEvent;
 
 // Filesystem representation types
@@ -157,6 +269,7 @@ export interface IssueFile {
   updated_at: string;
   closed_at: string | null;
   comments: CommentFile[];
+  timeline: TimelineEventFile[];
 }
 
 export interface PullFile {
@@ -171,6 +284,25 @@ export interface PullFile {
   created_at: string;
   updated_at: string;
   comments: CommentFile[];
+  reviews: ReviewFile[];
+  timeline: TimelineEventFile[];
+}
+
+// One entry in an issue's or PR's history, oldest first
+export interface TimelineEventFile {
+  id: string; // GH Archive event id
+  action: string; // opened, closed, reopened, labeled, ...; "merged" for a PR closed by merging
+  actor: string;
+  label: string | null; // labeled/unlabeled only
+  created_at: string;
+}
+
+export interface ReviewFile {
+  id: number;
+  author: string;
+  state: string;
+  body: string | null;
+  submitted_at: string;
 }
 
 export interface CommentFile {
@@ -187,3 +319,62 @@ export interface UserFile {
   prs_opened: number;
   comments_made: number;
 }
+
+export interface ReleaseFile {
+  id: number;
+  tag_name: string;
+  name: string | null;
+  body: string | null;
+  author: string;
+  draft: boolean;
+  prerelease: boolean;
+  created_at: string;
+  published_at: string | null;
+}
+
+export interface StarFile {
+  user: string;
+  starred_at: string;
+}
+
+export interface ForkFile {
+  id: number;
+  full_name: string;
+  owner: string;
+  forked_at: string;
+}
+
+export interface RefFile {
+  ref: string | null; // null for the repository itself being created
+  ref_type: string;
+  action: 'created' | 'deleted';
+  actor: string;
+  created_at: string;
+}
+
+export interface MemberFile {
+  login: string;
+  action: string;
+  actor: string;
+  created_at: string;
+}
+
+// Repo-level activity, written alongside repo.json
+export interface RepoActivity {
+  releases: ReleaseFile[];
+  stars: StarFile[];
+  forks: ForkFile[];
+  refs: RefFile[];
+  members: MemberFile[];
+}
+
+// A commit from a PushEvent, first-seen push wins when the same SHA is pushed again
+export interface CommitFile {
+  sha: string;
+  message: string;
+  author_name: string;
+  author_email: string;
+  pushed_by: string;
+  ref: string; // e.g. "refs/heads/main"
+  pushed_at: string;
+}
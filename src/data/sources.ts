@@ -0,0 +1,139 @@
+import { createReadStream, createWriteStream, existsSync, readFileSync, statSync } from 'fs';
+import { createHash } from 'crypto';
+import { pipeline } from 'stream/promises';
+import { Readable } from 'stream';
+import { join, resolve } from 'path';
+
+export const GHARCHIVE_URL = 'https://data.gharchive.org';
+
+// Checksums file in the mirror root, in `sha256sum` format: "<hex>  <filename>"
+const CHECKSUMS_FILE = 'SHA256SUMS';
+
+// Where compressed GH Archive hours come from: the real archive, a local HTTP
+// stand-in, or a directory mirror of .json.gz files
+export interface ArchiveSource {
+  description: string;
+  // Write the compressed hour (e.g. "2024-01-15-15.json.gz") to partPath
+  fetchCompressed(filename: string, partPath: string): Promise<void>;
+  // Expected SHA-256 of the compressed hour, or null if the source publishes none
+  expectedChecksum(filename: string): Promise<string | null>;
+}
+
+export function parseChecksums(text: string): Map<string, string> {
+  const checksums = new Map<string, string>();
+  for (const line of text.split('\n')) {
+    const match = /^([0-9a-f]{64})\s+\*?(.+)$/i.exec(line.trim());
+    if (match) {
+      checksums.set(match[2].trim(), match[1].toLowerCase());
+    }
+  }
+  return checksums;
+}
+
+export async function sha256File(path: string): Promise<string> {
+  const hash = createHash('sha256');
+  await pipeline(createReadStream(path), hash);
+  return hash.digest('hex');
+}
+
+class HttpSource implements ArchiveSource {
+  private checksums: Promise<Map<string, string>> | null = null;
+
+  constructor(
+    private baseUrl: string,
+    private publishesChecksums: boolean,
+  ) {}
+
+  get description(): string {
+    return this.baseUrl;
+  }
+
+  // Resume from the part file's current size when the server honours Range
+  async fetchCompressed(filename: string, partPath: string): Promise<void> {
+    const url = `${this.baseUrl}/${filename}`;
+    const existingBytes = existsSync(partPath) ? statSync(partPath).size : 0;
+    const headers: Record<string, string> = {};
+    if (existingBytes > 0) {
+      headers.Range = `bytes=${existingBytes}-`;
+    }
+
+    const response = await fetch(url, { headers });
+
+    // 416: the part file already holds the whole archive
+    if (response.status === 416) return;
+
+    if (!response.ok) {
+      throw new Error(`Failed to download: ${response.status} ${response.statusText}`);
+    }
+
+    if (!response.body) {
+      throw new Error('No response body');
+    }
+
+    // Servers that ignore Range send the full file with 200, so start over
+    const resuming = response.status === 206;
+    if (resuming) {
+      console.log(`Resuming ${url} from byte ${existingBytes.toLocaleString()}...`);
+    }
+
+    const readable = Readable.fromWeb(response.body as any);
+    const writeStream = createWriteStream(partPath, { flags: resuming ? 'a' : 'w' });
+    await pipeline(readable, writeStream);
+  }
+
+  async expectedChecksum(filename: string): Promise<string | null> {
+    if (!this.publishesChecksums) return null;
+
+    if (!this.checksums) {
+      this.checksums = fetch(`${this.baseUrl}/${CHECKSUMS_FILE}`).then(async (response) =>
+        response.ok ? parseChecksums(await response.text()) : new Map<string, string>(),
+      );
+    }
+    return (await this.checksums).get(filename) ?? null;
+  }
+}
+
+class LocalDirSource implements ArchiveSource {
+  private checksums: Map<string, string> | null = null;
+
+  constructor(private dir: string) {
+    if (!existsSync(dir)) {
+      throw new Error(`Local archive directory not found: ${dir}`);
+    }
+  }
+
+  get description(): string {
+    return this.dir;
+  }
+
+  async fetchCompressed(filename: string, partPath: string): Promise<void> {
+    const sourcePath = join(this.dir, filename);
+    if (!existsSync(sourcePath)) {
+      throw new Error(`Hour not found in local archive: ${sourcePath}`);
+    }
+    await pipeline(createReadStream(sourcePath), createWriteStream(partPath));
+  }
+
+  async expectedChecksum(filename: string): Promise<string | null> {
+    if (!this.checksums) {
+      const checksumsPath = join(this.dir, CHECKSUMS_FILE);
+      this.checksums = existsSync(checksumsPath)
+        ? parseChecksums(readFileSync(checksumsPath, 'utf-8'))
+        : new Map();
+    }
+    return this.checksums.get(filename) ?? null;
+  }
+}
+
+// Resolve a --source value: an http(s) URL, or a path (optionally "dir:" prefixed)
+// to a local mirror. Defaults to GH Archive itself.
+export function createSource(spec?: string): ArchiveSource {
+  if (!spec) {
+    return new HttpSource(GHARCHIVE_URL, false);
+  }
+  if (/^https?:\/\//.test(spec)) {
+    const baseUrl = spec.replace(/\/+$/, '');
+    return new HttpSource(baseUrl, baseUrl !== GHARCHIVE_URL);
+  }
+  return new LocalDirSource(resolve(spec.replace(/^dir:/, '')));
+}
@@ -0,0 +1,330 @@
+#!/usr/bin/env tsx
+/**
+ * Cross-backend data parity checker.
+ * Loads every data backend the agents read from and reports where they disagree,
+ * so an eval win can't be explained by one agent simply seeing different data.
+ */
+
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import type { IssueFile, PullFile, UserFile } from './schema.js';
+import { CODEMODE_DIR, codemodeDataPath, readCodemodeData } from './codemode-shards.js';
+import { FS_DIR } from './writers/filesystem.js';
+import { DB_PATH } from './writers/sqlite.js';
+import { INDEX_PATH, readEmbeddingIndex } from './embeddings.js';
+
+// How many example keys to print per discrepancy kind
+const MAX_EXAMPLES = 5;
+
+interface IssueFacts {
+  state: string;
+  labels: string; // sorted, comma-joined
+  comments: number;
+  timeline: string; // actions in order, comma-joined
+}
+
+interface PullFacts {
+  state: string;
+  merged: boolean;
+  comments: number;
+  timeline: string;
+}
+
+interface UserFacts {
+  issues_opened: number;
+  prs_opened: number;
+  comments_made: number;
+}
+
+// What one backend says about each entity. Backends that don't store a detail
+// (embeddings only know which issues/PRs exist) leave those maps null.
+interface Snapshot {
+  name: string;
+  issues: Map<string, IssueFacts | null>; // key: "owner/repo#number"
+  pulls: Map<string, PullFacts | null>;
+  users: Map<string, UserFacts> | null;
+}
+
+const sortedLabels = (labels: string[]) => [...labels].sort().join(',');
+const timelineActions = (timeline: Array<{ action: string }> = []) =>
+  timeline.map((t) => t.action).join(',');
+
+function loadFilesystem(): Snapshot {
+  const snapshot: Snapshot = {
+    name: 'filesystem',
+    issues: new Map(),
+    pulls: new Map(),
+    users: new Map(),
+  };
+  const reposDir = join(FS_DIR, 'repos');
+  const list = (path: string) => (existsSync(path) ? readdirSync(path) : []);
+  const readJson = <T>(path: string) => JSON.parse(readFileSync(path, 'utf-8')) as T;
+
+  for (const owner of list(reposDir)) {
+    for (const name of list(join(reposDir, owner))) {
+      const repoDir = join(reposDir, owner, name);
+      for (const file of list(join(repoDir, 'issues'))) {
+        const issue = readJson<IssueFile>(join(repoDir, 'issues', file));
+        snapshot.issues.set(`${owner}/${name}#${issue.number}`, {
+          state: issue.state,
+          labels: sortedLabels(issue.labels),
+          comments: issue.comments.length,
+          timeline: timelineActions(issue.timeline),
+        });
+      }
+      for (const file of list(join(repoDir, 'pulls'))) {
+        const pull = readJson<PullFile>(join(repoDir, 'pulls', file));
+        snapshot.pulls.set(`${owner}/${name}#${pull.number}`, {
+          state: pull.state,
+          merged: pull.merged,
+          comments: pull.comments.length,
+          timeline: timelineActions(pull.timeline),
+        });
+      }
+    }
+  }
+
+  for (const file of list(join(FS_DIR, 'users'))) {
+    const user = readJson<UserFile>(join(FS_DIR, 'users', file));
+    snapshot.users!.set(user.login, {
+      issues_opened: user.issues_opened,
+      prs_opened: user.prs_opened,
+      comments_made: user.comments_made,
+    });
+  }
+
+  return snapshot;
+}
+
+function loadDatabase(): Snapshot {
+  const snapshot: Snapshot = {
+    name: 'sqlite',
+    issues: new Map(),
+    pulls: new Map(),
+    users: new Map(),
+  };
+  const db = new Database(DB_PATH, { readonly: true });
+
+  const issues = db
+    .prepare(
+      `
+    SELECT r.full_name as repo, i.number, i.state, i.labels_json,
+      (SELECT COUNT(*) FROM comments c WHERE c.issue_id = i.id) as comments,
+      (SELECT group_concat(action) FROM (
+        SELECT action FROM issue_events e WHERE e.issue_id = i.id ORDER BY created_at, rowid
+      )) as timeline
+    FROM issues i
+    JOIN repos r ON i.repo_id = r.id
+  `,
+    )
+    .all() as Array<{
+    repo: string;
+    number: number;
+    state: string;
+    labels_json: string;
+    comments: number;
+    timeline: string | null;
+  }>;
+  for (const i of issues) {
+    snapshot.issues.set(`${i.repo}#${i.number}`, {
+      state: i.state,
+      labels: sortedLabels(JSON.parse(i.labels_json || '[]')),
+      comments: i.comments,
+      timeline: i.timeline ?? '',
+    });
+  }
+
+  const pulls = db
+    .prepare(
+      `
+    SELECT r.full_name as repo, p.number, p.state, p.merged,
+      (SELECT COUNT(*) FROM comments c WHERE c.pull_id = p.id) as comments,
+      (SELECT group_concat(action) FROM (
+        SELECT action FROM pull_events e WHERE e.pull_id = p.id ORDER BY created_at, rowid
+      )) as timeline
+    FROM pulls p
+    JOIN repos r ON p.repo_id = r.id
+  `,
+    )
+    .all() as Array<{
+    repo: string;
+    number: number;
+    state: string;
+    merged: number;
+    comments: number;
+    timeline: string | null;
+  }>;
+  for (const p of pulls) {
+    snapshot.pulls.set(`${p.repo}#${p.number}`, {
+      state: p.state,
+      merged: p.merged === 1,
+      comments: p.comments,
+      timeline: p.timeline ?? '',
+    });
+  }
+
+  const users = db
+    .prepare('SELECT login, issues_opened, prs_opened, comments_made FROM users')
+    .all() as Array<UserFacts & { login: string }>;
+  for (const { login, ...facts } of users) {
+    snapshot.users!.set(login, facts);
+  }
+
+  db.close();
+  return snapshot;
+}
+
+function loadCodemode(): Snapshot {
+  const snapshot: Snapshot = {
+    name: 'codemode',
+    issues: new Map(),
+    pulls: new Map(),
+    users: new Map(),
+  };
+  const data = readCodemodeData()!;
+
+  for (const i of data.issues) {
+    snapshot.issues.set(`${i.repoFullName}#${i.number}`, {
+      state: i.state,
+      labels: sortedLabels(i.labels),
+      comments: i.comments.length,
+      timeline: timelineActions(i.timeline),
+    });
+  }
+  for (const p of data.pulls) {
+    snapshot.pulls.set(`${p.repoFullName}#${p.number}`, {
+      state: p.state,
+      merged: p.merged,
+      comments: p.comments.length,
+      timeline: timelineActions(p.timeline),
+    });
+  }
+  for (const u of data.users) {
+    snapshot.users!.set(u.login, {
+      issues_opened: u.issuesOpened,
+      prs_opened: u.prsOpened,
+      comments_made: u.commentsMade,
+    });
+  }
+
+  return snapshot;
+}
+
+function loadEmbeddings(): Snapshot {
+  const snapshot: Snapshot = {
+    name: 'embeddings',
+    issues: new Map(),
+    pulls: new Map(),
+    users: null,
+  };
+  for (const item of readEmbeddingIndex()?.items ?? []) {
+    const key = `${item.repo}#${item.number}`;
+    if (item.type === 'issue') snapshot.issues.set(key, null);
+    else if (item.type === 'pull') snapshot.pulls.set(key, null);
+  }
+  return snapshot;
+}
+
+// Compare `other` against `reference` for one entity kind, collecting discrepancies by kind
+function compareEntities<T extends object>(
+  kind: string,
+  reference: Map<string, T | null>,
+  other: Map<string, T | null>,
+  report: Map<string, string[]>,
+) {
+  const add = (label: string, example: string) => {
+    if (!report.has(label)) report.set(label, []);
+    report.get(label)!.push(example);
+  };
+
+  for (const [key, expected] of reference) {
+    if (!other.has(key)) {
+      add(`missing ${kind}`, key);
+      continue;
+    }
+    const actual = other.get(key);
+    if (!expected || !actual) continue;
+
+    for (const field of Object.keys(expected) as Array<keyof T>) {
+      if (expected[field] !== actual[field]) {
+        add(
+          `${kind} ${String(field)} differs`,
+          `${key} (${String(expected[field])} vs ${String(actual[field])})`,
+        );
+      }
+    }
+  }
+
+  for (const key of other.keys()) {
+    if (!reference.has(key)) add(`extra ${kind}`, key);
+  }
+}
+
+function main() {
+  const backends: Array<{ name: string; path: string; load: () => Snapshot }> = [
+    { name: 'filesystem', path: FS_DIR, load: loadFilesystem },
+    { name: 'sqlite', path: DB_PATH, load: loadDatabase },
+    // Shards, or the legacy codemode.json that the reader still falls back to
+    {
+      name: 'codemode',
+      path: codemodeDataPath() ?? join(CODEMODE_DIR, 'manifest.json'),
+      load: loadCodemode,
+    },
+    { name: 'embeddings', path: INDEX_PATH, load: loadEmbeddings },
+  ];
+
+  const snapshots: Snapshot[] = [];
+  for (const backend of backends) {
+    if (!existsSync(backend.path)) {
+      console.log(`Skipping ${backend.name}: ${backend.path} not found`);
+      continue;
+    }
+    console.log(`Loading ${backend.name}...`);
+    snapshots.push(backend.load());
+  }
+
+  if (snapshots.length < 2) {
+    console.error('Need at least two backends to compare. Run `pnpm transform` first.');
+    process.exit(1);
+  }
+
+  // The first backend with full details is the reference everything else is compared to
+  const [reference, ...others] = snapshots;
+  console.log(`\nReference backend: ${reference.name}\n`);
+
+  let total = 0;
+  for (const other of others) {
+    const report = new Map<string, string[]>();
+    compareEntities('issue', reference.issues, other.issues, report);
+    compareEntities('pull', reference.pulls, other.pulls, report);
+    if (reference.users && other.users) {
+      compareEntities('user', reference.users, other.users, report);
+    }
+
+    if (report.size === 0) {
+      console.log(`✓ ${other.name}: matches ${reference.name}`);
+      continue;
+    }
+
+    console.log(`✗ ${other.name}: differs from ${reference.name}`);
+    for (const [label, examples] of report) {
+      total += examples.length;
+      console.log(`  ${label}: ${examples.length}`);
+      for (const example of examples.slice(0, MAX_EXAMPLES)) {
+        console.log(`    - ${example}`);
+      }
+      if (examples.length > MAX_EXAMPLES) {
+        console.log(`    ... and ${examples.length - MAX_EXAMPLES} more`);
+      }
+    }
+  }
+
+  if (total > 0) {
+    console.log(`\n${total} discrepancies found.`);
+    process.exit(1);
+  }
+  console.log('\nAll backends agree.');
+}
+
+main();
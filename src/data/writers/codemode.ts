@@ -0,0 +1,385 @@
+import { existsSync, readFileSync, rmSync } from 'fs';
+import ts from 'typescript';
+import {
+  CODEMODE_DIR,
+  LEGACY_CODEMODE_PATH,
+  readCodemodeData,
+  readEntity,
+  readShardManifest,
+  writeShards,
+} from '../codemode-shards.js';
+import type { Dataset } from '../dataset.js';
+import type { CommentFile, ReviewFile, TimelineEventFile } from '../schema.js';
+import type { DatasetWriter, EntityCounts, WriteOptions } from './types.js';
+
+// Data structures matching the types we'll expose to codemode
+export interface Repo {
+  id: number;
+  owner: string;
+  name: string;
+  fullName: string;
+}
+
+export interface User {
+  id: number;
+  login: string;
+  issuesOpened: number;
+  prsOpened: number;
+  commentsMade: number;
+}
+
+export interface Comment {
+  id: number;
+  body: string;
+  author: string;
+  createdAt: string;
+}
+
+export interface Review {
+  id: number;
+  author: string;
+  state: string;
+  body: string | null;
+  submittedAt: string;
+}
+
+export interface TimelineEvent {
+  id: string;
+  action: string;
+  actor: string;
+  label: string | null;
+  createdAt: string;
+}
+
+export interface Issue {
+  id: number;
+  repoId: number;
+  repoFullName: string;
+  number: number;
+  title: string;
+  body: string | null;
+  state: string;
+  author: string;
+  labels: string[];
+  comments: Comment[];
+  timeline: TimelineEvent[];
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+}
+
+export interface Pull {
+  id: number;
+  repoId: number;
+  repoFullName: string;
+  number: number;
+  title: string;
+  body: string | null;
+  state: string;
+  author: string;
+  merged: boolean;
+  mergedAt: string | null;
+  comments: Comment[];
+  reviews: Review[];
+  timeline: TimelineEvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Release {
+  id: number;
+  repoFullName: string;
+  tagName: string;
+  name: string | null;
+  body: string | null;
+  author: string;
+  draft: boolean;
+  prerelease: boolean;
+  createdAt: string;
+  publishedAt: string | null;
+}
+
+export interface Star {
+  repoFullName: string;
+  user: string;
+  starredAt: string;
+}
+
+export interface Fork {
+  id: number;
+  repoFullName: string;
+  fullName: string;
+  owner: string;
+  forkedAt: string;
+}
+
+export interface Ref {
+  repoFullName: string;
+  ref: string | null;
+  refType: string;
+  action: 'created' | 'deleted';
+  actor: string;
+  createdAt: string;
+}
+
+export interface Member {
+  repoFullName: string;
+  login: string;
+  action: string;
+  actor: string;
+  createdAt: string;
+}
+
+export interface Commit {
+  repoFullName: string;
+  sha: string;
+  message: string;
+  authorName: string;
+  authorEmail: string;
+  pushedBy: string;
+  ref: string;
+  pushedAt: string;
+}
+
+export interface CodemodeData {
+  repos: Repo[];
+  users: User[];
+  issues: Issue[];
+  pulls: Pull[];
+  releases: Release[];
+  stars: Star[];
+  forks: Fork[];
+  refs: Ref[];
+  members: Member[];
+  commits: Commit[];
+}
+
+function toComment(comment: CommentFile): Comment {
+  return {
+    id: comment.id,
+    body: comment.body,
+    author: comment.author,
+    createdAt: comment.created_at,
+  };
+}
+
+function toReview(review: ReviewFile): Review {
+  return {
+    id: review.id,
+    author: review.author,
+    state: review.state,
+    body: review.body,
+    submittedAt: review.submitted_at,
+  };
+}
+
+function toTimelineEvent(event: TimelineEventFile): TimelineEvent {
+  return {
+    id: event.id,
+    action: event.action,
+    actor: event.actor,
+    label: event.label,
+    createdAt: event.created_at,
+  };
+}
+
+// Convert the canonical dataset into codemode's camelCase shape
+function toCodemodeData(dataset: Dataset): CodemodeData {
+  const repoOf = (key: string) => dataset.repos.get(key.split('#')[0])!;
+  const activity = Array.from(dataset.activity);
+
+  return {
+    repos: Array.from(dataset.repos.values()).map((r) => ({
+      id: r.id,
+      owner: r.owner,
+      name: r.name,
+      fullName: r.full_name,
+    })),
+    users: Array.from(dataset.users.values()).map((u) => ({
+      id: u.id,
+      login: u.login,
+      issuesOpened: u.issues_opened,
+      prsOpened: u.prs_opened,
+      commentsMade: u.comments_made,
+    })),
+    issues: Array.from(dataset.issues, ([key, i]) => ({
+      id: i.id,
+      repoId: repoOf(key).id,
+      repoFullName: repoOf(key).full_name,
+      number: i.number,
+      title: i.title,
+      body: i.body,
+      state: i.state,
+      author: i.author,
+      labels: i.labels,
+      comments: i.comments.map(toComment),
+      timeline: i.timeline.map(toTimelineEvent),
+      createdAt: i.created_at,
+      updatedAt: i.updated_at,
+      closedAt: i.closed_at,
+    })),
+    pulls: Array.from(dataset.pulls, ([key, p]) => ({
+      id: p.id,
+      repoId: repoOf(key).id,
+      repoFullName: repoOf(key).full_name,
+      number: p.number,
+      title: p.title,
+      body: p.body,
+      state: p.state,
+      author: p.author,
+      merged: p.merged,
+      mergedAt: p.merged_at,
+      comments: p.comments.map(toComment),
+      reviews: p.reviews.map(toReview),
+      timeline: p.timeline.map(toTimelineEvent),
+      createdAt: p.created_at,
+      updatedAt: p.updated_at,
+    })),
+    releases: activity.flatMap(([repoFullName, a]) =>
+      a.releases.map((r) => ({
+        id: r.id,
+        repoFullName,
+        tagName: r.tag_name,
+        name: r.name,
+        body: r.body,
+        author: r.author,
+        draft: r.draft,
+        prerelease: r.prerelease,
+        createdAt: r.created_at,
+        publishedAt: r.published_at,
+      })),
+    ),
+    stars: activity.flatMap(([repoFullName, a]) =>
+      a.stars.map((s) => ({ repoFullName, user: s.user, starredAt: s.starred_at })),
+    ),
+    forks: activity.flatMap(([repoFullName, a]) =>
+      a.forks.map((f) => ({
+        id: f.id,
+        repoFullName,
+        fullName: f.full_name,
+        owner: f.owner,
+        forkedAt: f.forked_at,
+      })),
+    ),
+    refs: activity.flatMap(([repoFullName, a]) =>
+      a.refs.map((r) => ({
+        repoFullName,
+        ref: r.ref,
+        refType: r.ref_type,
+        action: r.action,
+        actor: r.actor,
+        createdAt: r.created_at,
+      })),
+    ),
+    members: activity.flatMap(([repoFullName, a]) =>
+      a.members.map((m) => ({
+        repoFullName,
+        login: m.login,
+        action: m.action,
+        actor: m.actor,
+        createdAt: m.created_at,
+      })),
+    ),
+    commits: Array.from(dataset.commits, ([key, c]) => ({
+      repoFullName: key.split('@')[0],
+      sha: c.sha,
+      message: c.message,
+      authorName: c.author_name,
+      authorEmail: c.author_email,
+      pushedBy: c.pushed_by,
+      ref: c.ref,
+      pushedAt: c.pushed_at,
+    })),
+  };
+}
+
+// The interfaces exported by this module, as the ambient declarations stored with the shards
+function interfaceDeclarations(): string {
+  const path = import.meta.filename;
+  const source = ts.createSourceFile(
+    path,
+    readFileSync(path, 'utf-8'),
+    ts.ScriptTarget.ES2022,
+    true,
+  );
+  return source.statements
+    .filter(ts.isInterfaceDeclaration)
+    .map((node) => node.getText(source).replace(/^export /, ''))
+    .join('\n\n');
+}
+
+// Replace entries in `existing` that share a key with `updates`, append the rest
+function mergeBy<T>(existing: T[], updates: T[], keyOf: (item: T) => string): T[] {
+  const merged = new Map(existing.map((item) => [keyOf(item), item]));
+  for (const item of updates) {
+    merged.set(keyOf(item), item);
+  }
+  return Array.from(merged.values());
+}
+
+function writeCodemode(dataset: Dataset, incremental: boolean) {
+  console.log('\nWriting codemode shards...');
+
+  let data = toCodemodeData(dataset);
+  const existing = incremental ? readCodemodeData() : null;
+  if (existing) {
+    const entityKey = (e: { repoFullName: string; number: number }) =>
+      `${e.repoFullName}#${e.number}`;
+    data = {
+      repos: mergeBy(existing.repos, data.repos, (r) => r.fullName),
+      users: mergeBy(existing.users, data.users, (u) => u.login),
+      issues: mergeBy(existing.issues, data.issues, entityKey),
+      pulls: mergeBy(existing.pulls, data.pulls, entityKey),
+      releases: mergeBy(existing.releases, data.releases, (r) => String(r.id)),
+      stars: mergeBy(existing.stars, data.stars, (s) => `${s.repoFullName}:${s.user}`),
+      forks: mergeBy(existing.forks, data.forks, (f) => String(f.id)),
+      refs: mergeBy(existing.refs, data.refs, (r) =>
+        [r.repoFullName, r.refType, r.ref, r.action, r.createdAt].join(':'),
+      ),
+      members: mergeBy(existing.members, data.members, (m) =>
+        [m.repoFullName, m.login, m.action, m.createdAt].join(':'),
+      ),
+      commits: mergeBy(existing.commits, data.commits, (c) => `${c.repoFullName}@${c.sha}`),
+    };
+  }
+
+  const bytes = writeShards(data, interfaceDeclarations());
+  // Superseded by the shards (and already merged above when incremental)
+  if (existsSync(LEGACY_CODEMODE_PATH)) rmSync(LEGACY_CODEMODE_PATH);
+
+  const sizeMB = (bytes / 1024 / 1024).toFixed(1);
+  console.log(`Output: ${CODEMODE_DIR} (${sizeMB} MB)`);
+}
+
+function readCounts(): EntityCounts {
+  const manifest = readShardManifest();
+  if (!manifest) throw new Error(`Codemode shards not found in ${CODEMODE_DIR}`);
+  const count = (kind: keyof CodemodeData) => manifest.entities[kind].count;
+  // Only issues and PRs need parsing, for their nested comments, reviews and timelines
+  const issues = readEntity('issues', manifest);
+  const pulls = readEntity('pulls', manifest);
+  const commentCount = (items: Array<{ comments: Comment[] }>) =>
+    items.reduce((sum, item) => sum + item.comments.length, 0);
+  return {
+    repos: count('repos'),
+    users: count('users'),
+    issues: issues.length,
+    pulls: pulls.length,
+    comments: commentCount(issues) + commentCount(pulls),
+    reviews: pulls.reduce((sum, p) => sum + p.reviews.length, 0),
+    releases: count('releases'),
+    stars: count('stars'),
+    forks: count('forks'),
+    commits: count('commits'),
+    timeline:
+      issues.reduce((sum, i) => sum + i.timeline.length, 0) +
+      pulls.reduce((sum, p) => sum + p.timeline.length, 0),
+  };
+}
+
+export const codemodeWriter: DatasetWriter = {
+  name: 'codemode',
+  output: CODEMODE_DIR,
+  write: async (dataset, { incremental }: WriteOptions) => writeCodemode(dataset, incremental),
+  readCounts,
+};
@@ -0,0 +1,73 @@
+import type { Dataset } from '../dataset.js';
+import type { CommitFile } from '../schema.js';
+import { INDEX_PATH, embedItems, readEmbeddingIndex, type EmbedItem } from '../embeddings.js';
+import type { DatasetWriter, EntityCounts, WriteOptions } from './types.js';
+
+// First line of the message is the title, the rest the body
+export function commitEmbedItem(
+  repo: string,
+  commit: Pick<CommitFile, 'sha' | 'message'>,
+): EmbedItem {
+  const [title, ...rest] = commit.message.split('\n');
+  return {
+    id: commit.sha,
+    type: 'commit',
+    repo,
+    number: null,
+    title,
+    body: rest.join('\n').trim() || null,
+  };
+}
+
+// Issues and PRs are embedded even without a title (their body and comments still say
+// what they are about), so the index covers every one the other backends hold
+function toEmbedItems(dataset: Dataset): EmbedItem[] {
+  const repoOf = (key: string) => key.split('#')[0];
+  return [
+    ...Array.from(dataset.issues, ([key, i]) => ({
+      id: i.id,
+      type: 'issue' as const,
+      repo: repoOf(key),
+      number: i.number,
+      title: i.title,
+      body: i.body,
+      comments: i.comments.map((c) => ({ id: c.id, body: c.body })),
+    })),
+    ...Array.from(dataset.pulls, ([key, p]) => ({
+      id: p.id,
+      type: 'pull' as const,
+      repo: repoOf(key),
+      number: p.number,
+      title: p.title,
+      body: p.body,
+      comments: p.comments.map((c) => ({ id: c.id, body: c.body })),
+    })),
+    ...Array.from(dataset.commits)
+      .filter(([, c]) => c.message)
+      .map(([key, c]) => commitEmbedItem(key.split('@')[0], c)),
+  ];
+}
+
+// Only issues, PRs and commits are embedded, so those are the only counts to compare.
+// Each has one index entry per chunk, so count distinct parents.
+function readCounts(): Partial<EntityCounts> {
+  const items = readEmbeddingIndex()?.items ?? [];
+  const count = (type: string) =>
+    new Set(items.filter((i) => i.type === type).map((i) => `${i.repo}@${i.id}`)).size;
+  return {
+    issues: count('issue'),
+    pulls: count('pull'),
+    commits: count('commit'),
+  };
+}
+
+export const embeddingsWriter: DatasetWriter = {
+  name: 'embeddings',
+  output: INDEX_PATH,
+  write: async (dataset, { incremental }: WriteOptions) => {
+    console.log('\nWriting embeddings...');
+    // An incremental dataset holds only touched entities, so nothing else may be pruned
+    await embedItems(toEmbedItems(dataset), undefined, { complete: !incremental });
+  },
+  readCounts,
+};
@@ -0,0 +1,202 @@
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { readJsonIfExists, type Dataset, type ExistingOutputs } from '../dataset.js';
+import type { CommitFile, IssueFile, PullFile, ReleaseFile, RepoActivity } from '../schema.js';
+import type { DatasetWriter, EntityCounts, WriteOptions } from './types.js';
+
+function listDir(path: string): string[] {
+  return existsSync(path) ? readdirSync(path) : [];
+}
+
+export const FS_DIR = join(import.meta.dirname, '../../../data/filesystem');
+
+// Per-repo activity lists, each written as repos/{owner}/{repo}/{kind}.json
+const ACTIVITY_LISTS = ['stars', 'forks', 'refs', 'members'] as const;
+
+// Tags can contain "/", so they're encoded to stay a single path segment
+const releaseFileName = (tag: string) => `${encodeURIComponent(tag)}.json`;
+
+function readActivity(repoName: string): RepoActivity | null {
+  const repoDir = join(FS_DIR, 'repos', repoName);
+  if (!existsSync(repoDir)) return null;
+
+  const releasesDir = join(repoDir, 'releases');
+  const readList = <T>(kind: (typeof ACTIVITY_LISTS)[number]) =>
+    readJsonIfExists<T[]>(join(repoDir, `${kind}.json`)) ?? [];
+
+  return {
+    releases: listDir(releasesDir).map(
+      (file) => JSON.parse(readFileSync(join(releasesDir, file), 'utf-8')) as ReleaseFile,
+    ),
+    stars: readList('stars'),
+    forks: readList('forks'),
+    refs: readList('refs'),
+    members: readList('members'),
+  };
+}
+
+// Reads entities back from the filesystem representation written by a previous run
+export function filesystemOutputs(): ExistingOutputs {
+  const entityPath = (key: string, kind: 'issues' | 'pulls') => {
+    const [repoName, number] = key.split('#');
+    return join(FS_DIR, 'repos', repoName, kind, `${number}.json`);
+  };
+
+  return {
+    repo: (repoName) => readJsonIfExists(join(FS_DIR, 'repos', repoName, 'repo.json')),
+    issue: (key) => readJsonIfExists(entityPath(key, 'issues')),
+    pull: (key) => readJsonIfExists(entityPath(key, 'pulls')),
+    user: (login) => readJsonIfExists(join(FS_DIR, 'users', `${login}.json`)),
+    activity: readActivity,
+    commit: (key) => {
+      const [repoName, sha] = key.split('@');
+      return readJsonIfExists(join(FS_DIR, 'repos', repoName, 'commits', `${sha}.json`));
+    },
+  };
+}
+
+// Writes every entity held in the dataset - in incremental mode, only those touched by new events
+function writeFilesystem(
+  { repos, issues, pulls, users, activity, commits }: Dataset,
+  incremental = false,
+) {
+  console.log('\nWriting filesystem representation...');
+
+  // Remove files from earlier runs, unless we're applying new events on top of them
+  if (!incremental) rmSync(FS_DIR, { recursive: true, force: true });
+
+  // Create base directories
+  const reposDir = join(FS_DIR, 'repos');
+  const usersDir = join(FS_DIR, 'users');
+
+  mkdirSync(reposDir, { recursive: true });
+  mkdirSync(usersDir, { recursive: true });
+
+  // Pushes far outnumber issues, so group commits by repo up front
+  const commitsByRepo = new Map<string, CommitFile[]>();
+  for (const [key, commit] of commits) {
+    const repoName = key.split('@')[0];
+    if (!commitsByRepo.has(repoName)) commitsByRepo.set(repoName, []);
+    commitsByRepo.get(repoName)!.push(commit);
+  }
+
+  // Write repos with their issues and PRs
+  for (const [repoName, repo] of repos) {
+    const [owner, name] = repoName.split('/');
+    const repoDir = join(reposDir, owner, name);
+    mkdirSync(repoDir, { recursive: true });
+
+    // Write repo metadata
+    writeFileSync(join(repoDir, 'repo.json'), JSON.stringify(repo, null, 2));
+
+    // Write issues
+    const issuesDir = join(repoDir, 'issues');
+    let issueCount = 0;
+    for (const [key, issue] of issues) {
+      if (key.startsWith(repoName + '#')) {
+        if (issueCount === 0) mkdirSync(issuesDir, { recursive: true });
+        writeFileSync(join(issuesDir, `${issue.number}.json`), JSON.stringify(issue, null, 2));
+        issueCount++;
+      }
+    }
+
+    // Write pulls
+    const pullsDir = join(repoDir, 'pulls');
+    let pullCount = 0;
+    for (const [key, pull] of pulls) {
+      if (key.startsWith(repoName + '#')) {
+        if (pullCount === 0) mkdirSync(pullsDir, { recursive: true });
+        writeFileSync(join(pullsDir, `${pull.number}.json`), JSON.stringify(pull, null, 2));
+        pullCount++;
+      }
+    }
+
+    // Write commits
+    const repoCommits = commitsByRepo.get(repoName) ?? [];
+    if (repoCommits.length > 0) {
+      const commitsDir = join(repoDir, 'commits');
+      mkdirSync(commitsDir, { recursive: true });
+      for (const commit of repoCommits) {
+        writeFileSync(join(commitsDir, `${commit.sha}.json`), JSON.stringify(commit, null, 2));
+      }
+    }
+
+    // Write releases and the other repo-level activity lists
+    const repoActivity = activity.get(repoName);
+    if (repoActivity) {
+      if (repoActivity.releases.length > 0) {
+        const releasesDir = join(repoDir, 'releases');
+        mkdirSync(releasesDir, { recursive: true });
+        for (const release of repoActivity.releases) {
+          writeFileSync(
+            join(releasesDir, releaseFileName(release.tag_name)),
+            JSON.stringify(release, null, 2),
+          );
+        }
+      }
+      for (const kind of ACTIVITY_LISTS) {
+        if (repoActivity[kind].length > 0) {
+          writeFileSync(join(repoDir, `${kind}.json`), JSON.stringify(repoActivity[kind], null, 2));
+        }
+      }
+    }
+  }
+
+  // Write users
+  for (const [login, user] of users) {
+    writeFileSync(join(usersDir, `${login}.json`), JSON.stringify(user, null, 2));
+  }
+
+  console.log(`Filesystem written to: ${FS_DIR}`);
+}
+
+function readCounts(): EntityCounts {
+  const counts: EntityCounts = {
+    repos: 0,
+    users: 0,
+    issues: 0,
+    pulls: 0,
+    comments: 0,
+    reviews: 0,
+    releases: 0,
+    stars: 0,
+    forks: 0,
+    commits: 0,
+    timeline: 0,
+  };
+  const reposDir = join(FS_DIR, 'repos');
+
+  for (const owner of listDir(reposDir)) {
+    for (const name of listDir(join(reposDir, owner))) {
+      const repoDir = join(reposDir, owner, name);
+      if (existsSync(join(repoDir, 'repo.json'))) counts.repos++;
+
+      for (const kind of ['issues', 'pulls'] as const) {
+        for (const file of listDir(join(repoDir, kind))) {
+          const entity = JSON.parse(readFileSync(join(repoDir, kind, file), 'utf-8')) as
+            | IssueFile
+            | PullFile;
+          counts[kind]++;
+          counts.comments += entity.comments.length;
+          counts.timeline += entity.timeline?.length ?? 0;
+          if ('reviews' in entity) counts.reviews += entity.reviews.length;
+        }
+      }
+
+      counts.releases += listDir(join(repoDir, 'releases')).length;
+      counts.commits += listDir(join(repoDir, 'commits')).length;
+      counts.stars += readJsonIfExists<unknown[]>(join(repoDir, 'stars.json'))?.length ?? 0;
+      counts.forks += readJsonIfExists<unknown[]>(join(repoDir, 'forks.json'))?.length ?? 0;
+    }
+  }
+
+  counts.users = listDir(join(FS_DIR, 'users')).length;
+  return counts;
+}
+
+export const filesystemWriter: DatasetWriter = {
+  name: 'filesystem',
+  output: FS_DIR,
+  write: async (dataset, { incremental }: WriteOptions) => writeFilesystem(dataset, incremental),
+  readCounts,
+};
@@ -0,0 +1,91 @@
+import type { Dataset } from '../dataset.js';
+import { codemodeWriter } from './codemode.js';
+import { embeddingsWriter } from './embeddings.js';
+import { filesystemWriter } from './filesystem.js';
+import { sqliteWriter } from './sqlite.js';
+import type { DatasetWriter, EntityCounts } from './types.js';
+
+export type { DatasetWriter, EntityCounts, WriteOptions } from './types.js';
+
+export const WRITERS: Record<string, DatasetWriter> = {
+  filesystem: filesystemWriter,
+  sqlite: sqliteWriter,
+  codemode: codemodeWriter,
+  embeddings: embeddingsWriter,
+};
+
+// Embeddings cost API calls, so they only run when asked for explicitly
+export const DEFAULT_WRITERS = ['filesystem', 'sqlite', 'codemode'];
+
+export function resolveWriters(names: string[]): DatasetWriter[] {
+  const unknown = names.filter((n) => !(n in WRITERS));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown writer(s): ${unknown.join(', ')}. Available: ${Object.keys(WRITERS).join(', ')}`,
+    );
+  }
+  return names.map((n) => WRITERS[n]);
+}
+
+export function datasetCounts(dataset: Dataset): EntityCounts {
+  const commentCount = (items: Iterable<{ comments: unknown[] }>) =>
+    Array.from(items).reduce((sum, item) => sum + item.comments.length, 0);
+  const timelineCount = (items: Iterable<{ timeline: unknown[] }>) =>
+    Array.from(items).reduce((sum, item) => sum + item.timeline.length, 0);
+  const activity = Array.from(dataset.activity.values());
+  return {
+    repos: dataset.repos.size,
+    users: dataset.users.size,
+    issues: dataset.issues.size,
+    pulls: dataset.pulls.size,
+    comments: commentCount(dataset.issues.values()) + commentCount(dataset.pulls.values()),
+    reviews: Array.from(dataset.pulls.values()).reduce((sum, p) => sum + p.reviews.length, 0),
+    releases: activity.reduce((sum, a) => sum + a.releases.length, 0),
+    stars: activity.reduce((sum, a) => sum + a.stars.length, 0),
+    forks: activity.reduce((sum, a) => sum + a.forks.length, 0),
+    commits: dataset.commits.size,
+    timeline: timelineCount(dataset.issues.values()) + timelineCount(dataset.pulls.values()),
+  };
+}
+
+/**
+ * Compare entity counts across backends. Each backend is checked against `expected`
+ * (the dataset, after a full build) or, when that's null, against the other backends.
+ * Returns a list of human-readable mismatches; empty means consistent.
+ */
+export function checkConsistency(
+  writers: DatasetWriter[],
+  expected: EntityCounts | null,
+): string[] {
+  const rows: Record<string, Partial<EntityCounts>> = {};
+  if (expected) rows.dataset = expected;
+  for (const writer of writers) {
+    rows[writer.name] = writer.readCounts();
+  }
+
+  console.log('\nEntity counts by backend:');
+  console.table(rows);
+
+  const mismatches: string[] = [];
+  const kinds: Array<keyof EntityCounts> = [
+    'repos',
+    'users',
+    'issues',
+    'pulls',
+    'comments',
+    'reviews',
+    'releases',
+    'stars',
+    'forks',
+    'commits',
+    'timeline',
+  ];
+  for (const kind of kinds) {
+    const values = Object.entries(rows).filter(([, counts]) => counts[kind] !== undefined);
+    const distinct = new Set(values.map(([, counts]) => counts[kind]));
+    if (distinct.size > 1) {
+      mismatches.push(`${kind}: ${values.map(([name, c]) => `${name}=${c[kind]}`).join(', ')}`);
+    }
+  }
+  return mismatches;
+}
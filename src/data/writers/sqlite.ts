@@ -0,0 +1,511 @@
+import { existsSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import Database from 'better-sqlite3';
+import type { Dataset } from '../dataset.js';
+import type { DatasetWriter, EntityCounts, WriteOptions } from './types.js';
+
+export const DB_PATH = join(import.meta.dirname, '../../../data/database.sqlite');
+
+function writeDatabase(
+  { repos, issues, pulls, users, events, activity, commits }: Dataset,
+  incremental = false,
+) {
+  console.log(`\n${incremental ? 'Updating' : 'Writing'} SQLite database...`);
+
+  // Remove existing database, unless we're applying new events on top of it
+  if (!incremental && existsSync(DB_PATH)) {
+    unlinkSync(DB_PATH);
+  }
+
+  // A full build writes each row once; an incremental run replaces the touched rows
+  const upsert = incremental ? 'INSERT OR REPLACE' : 'INSERT OR IGNORE';
+
+  const db = new Database(DB_PATH);
+
+  // Create tables
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS repos (
+      id INTEGER PRIMARY KEY,
+      owner TEXT NOT NULL,
+      name TEXT NOT NULL,
+      full_name TEXT UNIQUE NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS users (
+      id INTEGER PRIMARY KEY,
+      login TEXT UNIQUE NOT NULL,
+      issues_opened INTEGER DEFAULT 0,
+      prs_opened INTEGER DEFAULT 0,
+      comments_made INTEGER DEFAULT 0
+    );
+
+    CREATE TABLE IF NOT EXISTS issues (
+      id INTEGER PRIMARY KEY,
+      repo_id INTEGER NOT NULL,
+      number INTEGER NOT NULL,
+      title TEXT,
+      body TEXT,
+      state TEXT,
+      author TEXT,
+      labels_json TEXT,
+      created_at TEXT,
+      updated_at TEXT,
+      closed_at TEXT,
+      FOREIGN KEY (repo_id) REFERENCES repos(id),
+      UNIQUE(repo_id, number)
+    );
+
+    CREATE TABLE IF NOT EXISTS pulls (
+      id INTEGER PRIMARY KEY,
+      repo_id INTEGER NOT NULL,
+      number INTEGER NOT NULL,
+      title TEXT,
+      body TEXT,
+      state TEXT,
+      author TEXT,
+      merged INTEGER DEFAULT 0,
+      merged_at TEXT,
+      created_at TEXT,
+      updated_at TEXT,
+      FOREIGN KEY (repo_id) REFERENCES repos(id),
+      UNIQUE(repo_id, number)
+    );
+
+    CREATE TABLE IF NOT EXISTS comments (
+      id INTEGER PRIMARY KEY,
+      issue_id INTEGER,
+      pull_id INTEGER,
+      body TEXT,
+      author TEXT,
+      created_at TEXT,
+      FOREIGN KEY (issue_id) REFERENCES issues(id),
+      FOREIGN KEY (pull_id) REFERENCES pulls(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS issue_events (
+      id TEXT PRIMARY KEY,
+      issue_id INTEGER NOT NULL,
+      action TEXT NOT NULL,
+      actor TEXT,
+      label TEXT,
+      created_at TEXT,
+      FOREIGN KEY (issue_id) REFERENCES issues(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS pull_events (
+      id TEXT PRIMARY KEY,
+      pull_id INTEGER NOT NULL,
+      action TEXT NOT NULL,
+      actor TEXT,
+      label TEXT,
+      created_at TEXT,
+      FOREIGN KEY (pull_id) REFERENCES pulls(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS reviews (
+      id INTEGER PRIMARY KEY,
+      pull_id INTEGER NOT NULL,
+      author TEXT,
+      state TEXT,
+      body TEXT,
+      submitted_at TEXT,
+      FOREIGN KEY (pull_id) REFERENCES pulls(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS releases (
+      id INTEGER PRIMARY KEY,
+      repo_id INTEGER NOT NULL,
+      tag_name TEXT NOT NULL,
+      name TEXT,
+      body TEXT,
+      author TEXT,
+      draft INTEGER DEFAULT 0,
+      prerelease INTEGER DEFAULT 0,
+      created_at TEXT,
+      published_at TEXT,
+      FOREIGN KEY (repo_id) REFERENCES repos(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS stars (
+      repo_id INTEGER NOT NULL,
+      user TEXT NOT NULL,
+      starred_at TEXT,
+      FOREIGN KEY (repo_id) REFERENCES repos(id),
+      PRIMARY KEY (repo_id, user)
+    );
+
+    CREATE TABLE IF NOT EXISTS forks (
+      id INTEGER PRIMARY KEY,
+      repo_id INTEGER NOT NULL,
+      full_name TEXT,
+      owner TEXT,
+      forked_at TEXT,
+      FOREIGN KEY (repo_id) REFERENCES repos(id)
+    );
+
+    CREATE TABLE IF NOT EXISTS refs (
+      repo_id INTEGER NOT NULL,
+      ref TEXT,
+      ref_type TEXT NOT NULL,
+      action TEXT NOT NULL,
+      actor TEXT,
+      created_at TEXT,
+      FOREIGN KEY (repo_id) REFERENCES repos(id),
+      UNIQUE(repo_id, ref, ref_type, action, created_at)
+    );
+
+    CREATE TABLE IF NOT EXISTS members (
+      repo_id INTEGER NOT NULL,
+      login TEXT NOT NULL,
+      action TEXT,
+      actor TEXT,
+      created_at TEXT,
+      FOREIGN KEY (repo_id) REFERENCES repos(id),
+      UNIQUE(repo_id, login, action, created_at)
+    );
+
+    CREATE TABLE IF NOT EXISTS commits (
+      repo_id INTEGER NOT NULL,
+      sha TEXT NOT NULL,
+      message TEXT,
+      author_name TEXT,
+      author_email TEXT,
+      pushed_by TEXT,
+      ref TEXT,
+      pushed_at TEXT,
+      FOREIGN KEY (repo_id) REFERENCES repos(id),
+      PRIMARY KEY (repo_id, sha)
+    );
+
+    CREATE TABLE IF NOT EXISTS events (
+      id TEXT PRIMARY KEY,
+      type TEXT NOT NULL,
+      actor_login TEXT,
+      repo_name TEXT,
+      payload_json TEXT,
+      created_at TEXT
+    );
+
+    -- Full-text indexes over the text columns, kept in sync with a rebuild after inserts
+    CREATE VIRTUAL TABLE IF NOT EXISTS issues_fts USING fts5(
+      title, body, content='issues', content_rowid='id', tokenize='porter unicode61'
+    );
+    CREATE VIRTUAL TABLE IF NOT EXISTS pulls_fts USING fts5(
+      title, body, content='pulls', content_rowid='id', tokenize='porter unicode61'
+    );
+    CREATE VIRTUAL TABLE IF NOT EXISTS comments_fts USING fts5(
+      body, content='comments', content_rowid='id', tokenize='porter unicode61'
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_issues_repo ON issues(repo_id);
+    CREATE INDEX IF NOT EXISTS idx_issues_author ON issues(author);
+    CREATE INDEX IF NOT EXISTS idx_pulls_repo ON pulls(repo_id);
+    CREATE INDEX IF NOT EXISTS idx_pulls_author ON pulls(author);
+    CREATE INDEX IF NOT EXISTS idx_comments_author ON comments(author);
+    CREATE INDEX IF NOT EXISTS idx_issue_events_issue ON issue_events(issue_id);
+    CREATE INDEX IF NOT EXISTS idx_issue_events_action ON issue_events(action);
+    CREATE INDEX IF NOT EXISTS idx_pull_events_pull ON pull_events(pull_id);
+    CREATE INDEX IF NOT EXISTS idx_pull_events_action ON pull_events(action);
+    CREATE INDEX IF NOT EXISTS idx_reviews_pull ON reviews(pull_id);
+    CREATE INDEX IF NOT EXISTS idx_reviews_author ON reviews(author);
+    CREATE INDEX IF NOT EXISTS idx_releases_repo ON releases(repo_id);
+    CREATE INDEX IF NOT EXISTS idx_stars_user ON stars(user);
+    CREATE INDEX IF NOT EXISTS idx_forks_repo ON forks(repo_id);
+    CREATE INDEX IF NOT EXISTS idx_refs_repo ON refs(repo_id);
+    CREATE INDEX IF NOT EXISTS idx_members_repo ON members(repo_id);
+    CREATE INDEX IF NOT EXISTS idx_commits_pushed_by ON commits(pushed_by);
+    CREATE INDEX IF NOT EXISTS idx_events_type ON events(type);
+    CREATE INDEX IF NOT EXISTS idx_events_repo ON events(repo_name);
+    CREATE INDEX IF NOT EXISTS idx_events_actor ON events(actor_login);
+  `);
+
+  // All rows go in one transaction, so a run that fails partway leaves the database as it
+  // was (and an incremental run can simply be retried)
+  db.transaction(() => {
+    // Insert repos
+    const insertRepo = db.prepare(
+      `${upsert} INTO repos (id, owner, name, full_name) VALUES (?, ?, ?, ?)`,
+    );
+    for (const repo of repos.values()) {
+      insertRepo.run(repo.id, repo.owner, repo.name, repo.full_name);
+    }
+
+    // Insert users
+    const insertUser = db.prepare(
+      `${upsert} INTO users (id, login, issues_opened, prs_opened, comments_made) VALUES (?, ?, ?, ?, ?)`,
+    );
+    for (const user of users.values()) {
+      insertUser.run(user.id, user.login, user.issues_opened, user.prs_opened, user.comments_made);
+    }
+
+    // Create a map of repo full_name to id for foreign keys
+    const repoIdMap = new Map<string, number>();
+    for (const repo of repos.values()) {
+      repoIdMap.set(repo.full_name, repo.id);
+    }
+
+    // Insert issues
+    const insertIssue = db.prepare(`
+      ${upsert} INTO issues (id, repo_id, number, title, body, state, author, labels_json, created_at, updated_at, closed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const issueIdMap = new Map<string, number>();
+    for (const [key, issue] of issues) {
+      const repoName = key.split('#')[0];
+      const repoId = repoIdMap.get(repoName);
+      if (repoId) {
+        insertIssue.run(
+          issue.id,
+          repoId,
+          issue.number,
+          issue.title,
+          issue.body,
+          issue.state,
+          issue.author,
+          JSON.stringify(issue.labels),
+          issue.created_at,
+          issue.updated_at,
+          issue.closed_at,
+        );
+        issueIdMap.set(key, issue.id);
+      }
+    }
+
+    // Insert pulls
+    const insertPull = db.prepare(`
+      ${upsert} INTO pulls (id, repo_id, number, title, body, state, author, merged, merged_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const pullIdMap = new Map<string, number>();
+    for (const [key, pull] of pulls) {
+      const repoName = key.split('#')[0];
+      const repoId = repoIdMap.get(repoName);
+      if (repoId) {
+        insertPull.run(
+          pull.id,
+          repoId,
+          pull.number,
+          pull.title,
+          pull.body,
+          pull.state,
+          pull.author,
+          pull.merged ? 1 : 0,
+          pull.merged_at,
+          pull.created_at,
+          pull.updated_at,
+        );
+        pullIdMap.set(key, pull.id);
+      }
+    }
+
+    // Insert comments
+    const insertComment = db.prepare(`
+      INSERT OR IGNORE INTO comments (id, issue_id, pull_id, body, author, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    for (const [key, issue] of issues) {
+      const issueId = issueIdMap.get(key);
+      for (const comment of issue.comments) {
+        insertComment.run(
+          comment.id,
+          issueId,
+          null,
+          comment.body,
+          comment.author,
+          comment.created_at,
+        );
+      }
+    }
+    for (const [key, pull] of pulls) {
+      const pullId = pullIdMap.get(key);
+      for (const comment of pull.comments) {
+        insertComment.run(
+          comment.id,
+          null,
+          pullId,
+          comment.body,
+          comment.author,
+          comment.created_at,
+        );
+      }
+    }
+
+    // Insert issue and PR timelines
+    const insertIssueEvent = db.prepare(`
+      ${upsert} INTO issue_events (id, issue_id, action, actor, label, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    for (const [key, issue] of issues) {
+      const issueId = issueIdMap.get(key);
+      if (!issueId) continue;
+      for (const e of issue.timeline) {
+        insertIssueEvent.run(e.id, issueId, e.action, e.actor, e.label, e.created_at);
+      }
+    }
+    const insertPullEvent = db.prepare(`
+      ${upsert} INTO pull_events (id, pull_id, action, actor, label, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    for (const [key, pull] of pulls) {
+      const pullId = pullIdMap.get(key);
+      if (!pullId) continue;
+      for (const e of pull.timeline) {
+        insertPullEvent.run(e.id, pullId, e.action, e.actor, e.label, e.created_at);
+      }
+    }
+
+    // Insert reviews
+    const insertReview = db.prepare(`
+      ${upsert} INTO reviews (id, pull_id, author, state, body, submitted_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    for (const [key, pull] of pulls) {
+      const pullId = pullIdMap.get(key);
+      if (!pullId) continue;
+      for (const review of pull.reviews) {
+        insertReview.run(
+          review.id,
+          pullId,
+          review.author,
+          review.state,
+          review.body,
+          review.submitted_at,
+        );
+      }
+    }
+
+    // Insert repo activity: releases, stars, forks, branch/tag refs, collaborators
+    const insertRelease = db.prepare(`
+      ${upsert} INTO releases (id, repo_id, tag_name, name, body, author, draft, prerelease, created_at, published_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertStar = db.prepare(
+      `${upsert} INTO stars (repo_id, user, starred_at) VALUES (?, ?, ?)`,
+    );
+    const insertFork = db.prepare(
+      `${upsert} INTO forks (id, repo_id, full_name, owner, forked_at) VALUES (?, ?, ?, ?, ?)`,
+    );
+    const insertRef = db.prepare(
+      `INSERT OR IGNORE INTO refs (repo_id, ref, ref_type, action, actor, created_at) VALUES (?, ?, ?, ?, ?, ?)`,
+    );
+    const insertMember = db.prepare(
+      `INSERT OR IGNORE INTO members (repo_id, login, action, actor, created_at) VALUES (?, ?, ?, ?, ?)`,
+    );
+    for (const [repoName, repoActivity] of activity) {
+      const repoId = repoIdMap.get(repoName);
+      if (!repoId) continue;
+      for (const release of repoActivity.releases) {
+        insertRelease.run(
+          release.id,
+          repoId,
+          release.tag_name,
+          release.name,
+          release.body,
+          release.author,
+          release.draft ? 1 : 0,
+          release.prerelease ? 1 : 0,
+          release.created_at,
+          release.published_at,
+        );
+      }
+      for (const star of repoActivity.stars) {
+        insertStar.run(repoId, star.user, star.starred_at);
+      }
+      for (const fork of repoActivity.forks) {
+        insertFork.run(fork.id, repoId, fork.full_name, fork.owner, fork.forked_at);
+      }
+      for (const ref of repoActivity.refs) {
+        insertRef.run(repoId, ref.ref, ref.ref_type, ref.action, ref.actor, ref.created_at);
+      }
+      for (const member of repoActivity.members) {
+        insertMember.run(repoId, member.login, member.action, member.actor, member.created_at);
+      }
+    }
+
+    // Insert commits - the first push of a SHA wins, so never replace
+    const insertCommit = db.prepare(`
+      INSERT OR IGNORE INTO commits (repo_id, sha, message, author_name, author_email, pushed_by, ref, pushed_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    for (const [key, commit] of commits) {
+      const repoId = repoIdMap.get(key.split('@')[0]);
+      if (!repoId) continue;
+      insertCommit.run(
+        repoId,
+        commit.sha,
+        commit.message,
+        commit.author_name,
+        commit.author_email,
+        commit.pushed_by,
+        commit.ref,
+        commit.pushed_at,
+      );
+    }
+
+    // Rebuild the full-text indexes from their content tables. Cheaper than triggers for a
+    // bulk load, and also picks up rows replaced by an incremental run.
+    console.log('Building full-text indexes...');
+    for (const fts of ['issues_fts', 'pulls_fts', 'comments_fts']) {
+      db.prepare(`INSERT INTO ${fts}(${fts}) VALUES ('rebuild')`).run();
+    }
+
+    // Insert events (sample - first 100k to keep DB manageable)
+    const insertEvent = db.prepare(`
+      INSERT OR IGNORE INTO events (id, type, actor_login, repo_name, payload_json, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    for (const event of events) {
+      insertEvent.run(
+        event.id,
+        event.type,
+        event.actor.login,
+        event.repo.name,
+        JSON.stringify((event as any).payload || {}),
+        event.created_at,
+      );
+    }
+  })();
+
+  // Table and index statistics (sqlite_stat1) for the query planner and the SQL agent's
+  // explain tool. The analysis limit samples each index, so large databases stay fast.
+  db.pragma('analysis_limit = 1000');
+  db.exec('ANALYZE');
+
+  db.close();
+  console.log(`Database written to: ${DB_PATH}`);
+}
+
+export function countStoredEvents(): number {
+  const db = new Database(DB_PATH, { readonly: true });
+  const { count } = db.prepare('SELECT COUNT(*) as count FROM events').get() as { count: number };
+  db.close();
+  return count;
+}
+
+function readCounts(): EntityCounts {
+  const db = new Database(DB_PATH, { readonly: true });
+  const count = (table: string) =>
+    (db.prepare(`SELECT COUNT(*) as count FROM ${table}`).get() as { count: number }).count;
+  const counts: EntityCounts = {
+    repos: count('repos'),
+    users: count('users'),
+    issues: count('issues'),
+    pulls: count('pulls'),
+    comments: count('comments'),
+    reviews: count('reviews'),
+    releases: count('releases'),
+    stars: count('stars'),
+    forks: count('forks'),
+    commits: count('commits'),
+    timeline: count('issue_events') + count('pull_events'),
+  };
+  db.close();
+  return counts;
+}
+
+export const sqliteWriter: DatasetWriter = {
+  name: 'sqlite',
+  output: DB_PATH,
+  write: async (dataset, { incremental }: WriteOptions) => writeDatabase(dataset, incremental),
+  readCounts,
+};
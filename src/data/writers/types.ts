@@ -0,0 +1,29 @@
+import type { Dataset } from '../dataset.js';
+
+export interface EntityCounts {
+  repos: number;
+  users: number;
+  issues: number;
+  pulls: number;
+  comments: number;
+  reviews: number;
+  releases: number;
+  stars: number;
+  forks: number;
+  commits: number;
+  timeline: number;
+}
+
+export interface WriteOptions {
+  // Apply the dataset on top of existing output instead of rebuilding it
+  incremental: boolean;
+}
+
+// An output backend. Each writer renders the same canonical Dataset into its own format.
+export interface DatasetWriter {
+  name: string;
+  output: string;
+  write(dataset: Dataset, options: WriteOptions): Promise<void>;
+  // Entity counts read back from the written output. Kinds the backend doesn't store are omitted.
+  readCounts(): Partial<EntityCounts>;
+}
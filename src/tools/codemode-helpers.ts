@@ -0,0 +1,150 @@
+/**
+ * Indexed lookup helpers attached to the codemode `data` object.
+ *
+ * The library is JavaScript source evaluated inside the sandbox's data realm (see
+ * codemode-sandbox.ts) rather than TypeScript imported here: snippets must never be handed
+ * functions or objects from the worker's own realm. HELPERS_DECLARATIONS documents it.
+ */
+
+// Called once with the dataset. Each index is built the first time a helper needs it, so
+// entities a snippet never touches are never loaded (see the lazy \`data\` in the sandbox)
+export const HELPERS_SOURCE = `(data) => {
+  const lower = (value) => String(value ?? '').toLowerCase();
+  const none = Object.freeze([]);
+
+  const indexes = new Map();
+  const indexed = (name, build) => {
+    if (!indexes.has(name)) indexes.set(name, build());
+    return indexes.get(name);
+  };
+  // Lookup function over items grouped by a case-insensitive key; unknown keys give []
+  const lookup = (name, items, keyOf) => (key) =>
+    indexed(name, () => {
+      const groups = new Map();
+      for (const item of items()) {
+        const k = lower(keyOf(item));
+        let group = groups.get(k);
+        if (!group) groups.set(k, (group = []));
+        group.push(item);
+      }
+      for (const group of groups.values()) Object.freeze(group);
+      return groups;
+    }).get(lower(key)) ?? none;
+  // Frozen object whose properties are computed on access
+  const view = (getters) => {
+    const result = {};
+    for (const [name, get] of Object.entries(getters)) {
+      Object.defineProperty(result, name, { enumerable: true, get });
+    }
+    return Object.freeze(result);
+  };
+
+  const repoKinds = ['issues', 'pulls', 'releases', 'stars', 'forks', 'refs', 'members', 'commits'];
+  const repoByName = lookup('repos', () => data.repos, (r) => r.fullName);
+  const byRepoKind = Object.fromEntries(
+    repoKinds.map((kind) => [kind, lookup('repo:' + kind, () => data[kind], (item) => item.repoFullName)]),
+  );
+
+  // Comments and reviews wrapped with the issue/PR they belong to
+  const comments = () =>
+    ['issues', 'pulls'].flatMap((kind) =>
+      data[kind].flatMap((item) =>
+        item.comments.map((comment) =>
+          Object.freeze({
+            type: kind === 'issues' ? 'issue' : 'pull',
+            repoFullName: item.repoFullName,
+            number: item.number,
+            comment,
+          }),
+        ),
+      ),
+    );
+  const reviews = () =>
+    data.pulls.flatMap((pull) =>
+      pull.reviews.map((review) =>
+        Object.freeze({ repoFullName: pull.repoFullName, number: pull.number, review }),
+      ),
+    );
+  const byAuthorKind = {
+    user: lookup('users', () => data.users, (u) => u.login),
+    issues: lookup('author:issues', () => data.issues, (i) => i.author),
+    pulls: lookup('author:pulls', () => data.pulls, (p) => p.author),
+    comments: lookup('author:comments', comments, (c) => c.comment.author),
+    reviews: lookup('author:reviews', reviews, (r) => r.review.author),
+    commits: lookup('author:commits', () => data.commits, (c) => c.pushedBy),
+    releases: lookup('author:releases', () => data.releases, (r) => r.author),
+    stars: lookup('author:stars', () => data.stars, (s) => s.user),
+  };
+
+  const issuesByKey = lookup('key:issues', () => data.issues, (i) => i.repoFullName + '#' + i.number);
+  const pullsByKey = lookup('key:pulls', () => data.pulls, (p) => p.repoFullName + '#' + p.number);
+
+  // Lowercased text per issue/PR, so search doesn't re-lowercase the corpus on every call
+  const searchable = (kind) =>
+    indexed('search:' + kind, () =>
+      data[kind].map((item) => ({
+        item,
+        text: lower(item.title) + '\\n' + lower(item.body),
+        comments: item.comments.map((c) => lower(c.body)).join('\\n'),
+      })),
+    );
+
+  return {
+    byRepo: (fullName) =>
+      view({
+        repo: () => repoByName(fullName)[0],
+        ...Object.fromEntries(repoKinds.map((kind) => [kind, () => byRepoKind[kind](fullName)])),
+      }),
+    byAuthor: (login) =>
+      view({
+        ...Object.fromEntries(
+          Object.entries(byAuthorKind).map(([kind, find]) => [kind, () => find(login)]),
+        ),
+        user: () => byAuthorKind.user(login)[0],
+      }),
+    issueByKey: (key) => issuesByKey(key)[0],
+    pullByKey: (key) => pullsByKey(key)[0],
+    search: (text, options = {}) => {
+      const needle = lower(text);
+      const matches = (kind) =>
+        searchable(kind)
+          .filter((e) => e.text.includes(needle) || (options.comments && e.comments.includes(needle)))
+          .map((e) => e.item);
+      return { issues: matches('issues'), pulls: matches('pulls') };
+    },
+    groupCount: (items, key) => {
+      const keyOf = typeof key === 'function' ? key : (item) => item[key];
+      const counts = new Map();
+      for (const item of items) {
+        const value = keyOf(item);
+        for (const k of Array.isArray(value) ? value : [value]) {
+          if (k !== null && k !== undefined) counts.set(String(k), (counts.get(String(k)) ?? 0) + 1);
+        }
+      }
+      return [...counts].sort((a, b) => b[1] - a[1]);
+    },
+  };
+}`;
+
+export const HELPERS_DECLARATIONS = `interface CodemodeHelpers {
+  // Everything belonging to one repo ("owner/name", case-insensitive); empty arrays if unknown
+  byRepo(fullName: string): {
+    repo: Repo | undefined;
+    issues: Issue[]; pulls: Pull[]; releases: Release[]; stars: Star[];
+    forks: Fork[]; refs: Ref[]; members: Member[]; commits: Commit[];
+  };
+  // Everything one user did (case-insensitive); commits are the ones they pushed
+  byAuthor(login: string): {
+    user: User | undefined;
+    issues: Issue[]; pulls: Pull[]; commits: Commit[]; releases: Release[]; stars: Star[];
+    comments: Array<{ type: 'issue' | 'pull'; repoFullName: string; number: number; comment: Comment }>;
+    reviews: Array<{ repoFullName: string; number: number; review: Review }>;
+  };
+  // Key: "owner/repo#123"
+  issueByKey(key: string): Issue | undefined;
+  pullByKey(key: string): Pull | undefined;
+  // Case-insensitive substring match on title and body (and comment bodies if asked)
+  search(text: string, options?: { comments?: boolean }): { issues: Issue[]; pulls: Pull[] };
+  // [key, count] pairs, most common first; array-valued keys count each element, null/undefined are skipped
+  groupCount<T>(items: readonly T[], key: keyof T | ((item: T) => unknown)): Array<[string, number]>;
+}`;
@@ -0,0 +1,298 @@
+/**
+ * Worker-thread entry that runs codemode snippets. The host (codemode-tools.ts) owns the
+ * worker's lifetime, memory limit and wall-clock timeout; this side loads the dataset's
+ * shards as snippets first touch them and evaluates each snippet in a fresh vm context. Only
+ * a session's `scratch` object carries over from one snippet to the next.
+ *
+ * Snippets only ever see objects created inside sandbox realms, never host objects, and
+ * those realms can't compile strings. So the usual escape (`this.constructor.constructor(
+ * 'return process')()`) throws instead of reaching the worker's globals.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { createContext, runInContext, Script, type Context } from 'vm';
+import { parentPort, workerData } from 'worker_threads';
+import { readShardManifest } from '../data/codemode-shards.js';
+import type { CodemodeData } from '../data/writers/codemode.js';
+import { HELPERS_SOURCE } from './codemode-helpers.js';
+
+// Every call belongs to a session (one agent run); sessions keep their own `scratch`
+export type SandboxCall = { session: string } &
+  // asyncBody: the code with its last expression returned, for when it runs as an async
+  // function body (parsed by the host, so the sandbox never loads the TypeScript compiler)
+  (| { op: 'run'; code: string; asyncBody: string; timeoutMs: number }
+    | { op: 'list' }
+    | { op: 'clear'; names?: string[] }
+    | { op: 'close' }
+  );
+
+export interface SandboxResult {
+  result?: string;
+  error?: string;
+  logs: string[];
+}
+
+// Calls and results are matched up by id
+export type SandboxRequest = SandboxCall & { id: number };
+export type SandboxResponse = SandboxResult & { id: number };
+
+// Captured console output beyond this many characters is dropped
+const MAX_LOG_CHARS = 30000;
+
+const CONTEXT_OPTIONS = { codeGeneration: { strings: false, wasm: false } };
+
+// Realm that owns the dataset, shared (frozen) by every snippet's context
+const dataRealm = createContext(Object.create(null), CONTEXT_OPTIONS);
+
+// Builds \`data\` inside the data realm: one getter per entity that parses its shards on first
+// access (so untouched entities are never loaded), plus the helpers on top
+const DATA_SOURCE = `(manifestJson, readShard) => {
+  const freeze = (value) => {
+    if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+      Object.freeze(value);
+      for (const key of Object.keys(value)) freeze(value[key]);
+    }
+    return value;
+  };
+  const data = {};
+  for (const [kind, entity] of Object.entries(JSON.parse(manifestJson).entities)) {
+    // Parsed shards are kept as they complete, so a load cut short by a timeout resumes
+    const parsed = [];
+    let rows;
+    Object.defineProperty(data, kind, {
+      enumerable: true,
+      get: () => {
+        if (rows) return rows;
+        for (const file of entity.shards.slice(parsed.length)) {
+          const text = readShard(file);
+          if (text === undefined) throw new Error('Could not read codemode shard ' + file);
+          parsed.push(text.split('\\n').filter(Boolean).map((line) => freeze(JSON.parse(line))));
+        }
+        rows = Object.freeze(parsed.flat());
+        return rows;
+      },
+    });
+  }
+  Object.assign(data, (${HELPERS_SOURCE})(data));
+
+  // Every snippet shares this realm, so its built-ins (reachable as e.g.
+  // data.issues.constructor.prototype) and the helper functions are frozen too: one
+  // snippet can't patch Array.prototype.filter under the next one's feet
+  // (the vm global itself can't be frozen, and no snippet-reachable function returns it)
+  const seen = new WeakSet([globalThis]);
+  const harden = (root) => {
+    const stack = [root];
+    while (stack.length > 0) {
+      const value = stack.pop();
+      if (!value || (typeof value !== 'object' && typeof value !== 'function')) continue;
+      if (seen.has(value)) continue;
+      seen.add(value);
+      Object.freeze(value);
+      stack.push(Object.getPrototypeOf(value));
+      for (const key of Reflect.ownKeys(value)) {
+        const { value: v, get, set } = Object.getOwnPropertyDescriptor(value, key);
+        stack.push(v, get, set);
+      }
+    }
+  };
+  // Intrinsics that aren't reachable from a global
+  const intrinsics = [
+    [][Symbol.iterator](),
+    new Map().entries(),
+    new Set().values(),
+    ''[Symbol.iterator](),
+    ''.matchAll(/./g),
+    function* () {},
+    async function () {},
+    async function* () {},
+  ];
+  for (const name of Reflect.ownKeys(globalThis)) harden(globalThis[name]);
+  for (const intrinsic of intrinsics) harden(intrinsic);
+  harden(data);
+  return data;
+}`;
+
+function loadData(dir: string): CodemodeData {
+  const manifest = readShardManifest(dir);
+  if (!manifest) {
+    throw new Error(`Codemode data not found in ${dir}\nRun 'pnpm transform:codemode' first.`);
+  }
+
+  // Handed to the data realm. It has no prototype and never throws (a host-realm error
+  // would expose host prototypes), so snippets can't use it to reach the worker's Function
+  const shardFiles = new Set(Object.values(manifest.entities).flatMap((e) => e.shards));
+  const readShard = Object.setPrototypeOf((file: unknown) => {
+    try {
+      return typeof file === 'string' && shardFiles.has(file)
+        ? readFileSync(join(dir, file), 'utf-8')
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }, null);
+
+  const { repos, users, issues, pulls } = manifest.entities;
+  console.log(
+    `Codemode data: ${repos.count} repos, ${users.count} users, ${issues.count} issues, ${pulls.count} pulls (loaded on first use)`,
+  );
+  const build = runInContext(DATA_SOURCE, dataRealm);
+  return build(JSON.stringify(manifest), readShard);
+}
+
+// Per-session namespace that outlives a single snippet
+const scratches = new Map<string, Record<string, unknown>>();
+
+function scratchFor(session: string): Record<string, unknown> {
+  let scratch = scratches.get(session);
+  if (!scratch) {
+    scratch = runInContext('({})', dataRealm) as Record<string, unknown>;
+    scratches.set(session, scratch);
+  }
+  return scratch;
+}
+
+// One-line summary of a scratch value, e.g. "Map(120)", "function(2 args)", "Object {a, b}"
+function describe(value: unknown): string {
+  if (typeof value === 'function') {
+    return `function(${value.length} arg${value.length === 1 ? '' : 's'})`;
+  }
+  if (value === null || typeof value !== 'object') {
+    const text = typeof value === 'string' ? JSON.stringify(value) : String(value);
+    return text.length > 80 ? `${text.slice(0, 80)}...` : text;
+  }
+  // Tag-based so values created in another realm are recognized too
+  const tag = Object.prototype.toString.call(value).slice(8, -1);
+  if (Array.isArray(value)) return `Array(${value.length})`;
+  if (tag === 'Map' || tag === 'Set') return `${tag}(${(value as { size: number }).size})`;
+  const keys = Object.keys(value);
+  const shown =
+    keys.slice(0, 5).join(', ') + (keys.length > 5 ? `, ... (${keys.length} keys)` : '');
+  return `${tag} {${shown}}`;
+}
+
+function listScratch(scratch: Record<string, unknown>): string {
+  const names = Object.keys(scratch);
+  if (names.length === 0) return 'scratch is empty';
+  return names.map((name) => `scratch.${name}: ${describe(scratch[name])}`).join('\n');
+}
+
+function clearScratch(scratch: Record<string, unknown>, names = Object.keys(scratch)): string {
+  const removed = names.filter((name) => Object.hasOwn(scratch, name));
+  for (const name of removed) delete scratch[name];
+  const missing = names.filter((name) => !removed.includes(name));
+  return [
+    removed.length > 0 ? `Removed: ${removed.join(', ')}` : 'Nothing to remove',
+    ...(missing.length > 0 ? [`Not defined: ${missing.join(', ')}`] : []),
+  ].join('\n');
+}
+
+// Console for one snippet; returns the (sandbox-realm) array its output is collected in
+const CONSOLE_SOURCE = `(() => {
+  const logs = [];
+  let chars = 0;
+  let dropped = 0;
+  const format = (value) => {
+    if (typeof value === 'string') return value;
+    try {
+      return JSON.stringify(value) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  };
+  const write = (prefix) => (...args) => {
+    const line = prefix + args.map(format).join(' ');
+    if (chars + line.length > ${MAX_LOG_CHARS}) {
+      dropped++;
+      logs.dropped = '[' + dropped + ' more console lines dropped]';
+      return;
+    }
+    chars += line.length;
+    logs.push(line);
+  };
+  const log = write('');
+  globalThis.console = Object.freeze({
+    log,
+    info: log,
+    debug: log,
+    warn: write('[warn] '),
+    error: write('[error] '),
+  });
+  return logs;
+})()`;
+
+// Expressions and statement lists run as a script (their completion value is the result);
+// code using top-level `await` or `return` runs as the body of an async function, which
+// returns its last statement if that is an expression (`await fetchCount()`)
+function compile(code: string, asyncBody: string): Script {
+  try {
+    return new Script(code, { filename: 'snippet.js' });
+  } catch (error) {
+    try {
+      return new Script(`(async () => {\n${asyncBody}\n})()`, { filename: 'snippet.js' });
+    } catch {
+      throw error;
+    }
+  }
+}
+
+function formatResult(result: unknown): string {
+  if (typeof result === 'string') return result;
+  return JSON.stringify(result, null, 2) ?? String(result);
+}
+
+// Errors thrown inside the sandbox come from another realm, so `instanceof Error` fails
+function errorMessage(error: unknown): string {
+  if (error && typeof error === 'object' && 'message' in error) {
+    const name = 'name' in error ? String(error.name) : 'Error';
+    return name === 'Error' ? String(error.message) : `${name}: ${String(error.message)}`;
+  }
+  return String(error);
+}
+
+async function run(
+  data: CodemodeData,
+  id: number,
+  session: string,
+  code: string,
+  asyncBody: string,
+  timeoutMs: number,
+) {
+  const context: Context = createContext(Object.create(null), CONTEXT_OPTIONS);
+  Object.defineProperty(context, 'data', { value: data, enumerable: true });
+  Object.defineProperty(context, 'scratch', { value: scratchFor(session), enumerable: true });
+  const logs: string[] & { dropped?: string } = runInContext(CONSOLE_SOURCE, context);
+  const collectLogs = () => (logs.dropped ? [...logs, logs.dropped] : [...logs]);
+
+  try {
+    // The vm timeout stops synchronous loops; the host terminates the worker if an
+    // awaited promise never settles
+    let result = compile(code, asyncBody).runInContext(context, { timeout: timeoutMs });
+    if (result && typeof result.then === 'function') result = await result;
+    const response: SandboxResponse = { id, result: formatResult(result), logs: collectLogs() };
+    parentPort!.postMessage(response);
+  } catch (error) {
+    const response: SandboxResponse = { id, error: errorMessage(error), logs: collectLogs() };
+    parentPort!.postMessage(response);
+  }
+}
+
+function handle(data: CodemodeData, request: SandboxRequest) {
+  const { id, session } = request;
+  const reply = (result: string) => parentPort!.postMessage({ id, result, logs: [] });
+  switch (request.op) {
+    case 'run':
+      return run(data, id, session, request.code, request.asyncBody, request.timeoutMs);
+    case 'list':
+      return reply(listScratch(scratchFor(session)));
+    case 'clear':
+      return reply(clearScratch(scratchFor(session), request.names));
+    case 'close':
+      scratches.delete(session);
+      return reply('closed');
+  }
+}
+
+const data = loadData(workerData.dataDir);
+parentPort!.on('message', (request: SandboxRequest) => handle(data, request));
+parentPort!.postMessage({ ready: true });
@@ -1,90 +1,115 @@
 import { tool } from 'ai';
 import { z } from 'zod';
-import { readFileSync, existsSync } from 'fs';
+import { randomUUID } from 'crypto';
 import { join } from 'path';
-import { runInNewContext } from 'vm';
-
-const DATA_PATH = join(import.meta.dirname, '../../data/codemode.json');
+import { pathToFileURL } from 'url';
+import { Worker } from 'worker_threads';
+import { CODEMODE_DIR } from '../data/codemode-shards.js';
+import { HELPERS_DECLARATIONS } from './codemode-helpers.js';
+import { returnLastExpression, typeCheckSnippet } from './codemode-typecheck.js';
+import type {
+  SandboxCall,
+  SandboxRequest,
+  SandboxResponse,
+  SandboxResult,
+} from './codemode-sandbox.js';
+
+// Worker path relative to project root, like the agent workers
+const SANDBOX_PATH = join(process.cwd(), 'src/tools/codemode-sandbox.ts');
 const MAX_OUTPUT_CHARS = 30000;
-
-// Lazy-load the data
-let cachedData: CodemodeData | null = null;
-
-interface Repo {
-  id: number;
-  owner: string;
-  name: string;
-  fullName: string;
-}
-
-interface User {
-  id: number;
-  login: string;
-  issuesOpened: number;
-  prsOpened: number;
-  commentsMade: number;
+const TIMEOUT_MS = 30000;
+// Heap limit for the sandbox worker; the dataset itself lives in this heap
+const MEMORY_LIMIT_MB = Number(process.env.CODEMODE_MEMORY_MB) || 2048;
+
+// Type-check snippets against the dataset interfaces before running them (on unless "off")
+export const CODEMODE_TYPECHECK = process.env.CODEMODE_TYPECHECK !== 'off';
+// A snippet starting with this comment skips the type check
+const NO_CHECK_PATTERN = /^\s*\/\/\s*@ts-nocheck/;
+
+// Workers don't inherit tsx's loader hooks, so register them before loading the entry
+const SANDBOX_BOOTSTRAP = `import('tsx/esm/api').then(({ register }) => {
+  register();
+  return import(${JSON.stringify(pathToFileURL(SANDBOX_PATH).href)});
+});`;
+
+// The sandbox worker, started on first use and restarted after a timeout or crash
+let sandbox: Promise<Worker> | null = null;
+// Bumped on every (re)start; sessions compare it to notice their scratch was lost
+let generation = 0;
+// Snippets run one at a time, so a timeout only ever terminates the snippet that caused it
+let queue: Promise<unknown> = Promise.resolve();
+let nextId = 0;
+
+function startSandbox(): Promise<Worker> {
+  generation++;
+  const worker = new Worker(SANDBOX_BOOTSTRAP, {
+    eval: true,
+    workerData: { dataDir: CODEMODE_DIR },
+    env: {}, // no API keys or other secrets
+    resourceLimits: { maxOldGenerationSizeMb: MEMORY_LIMIT_MB },
+  });
+  // An idle sandbox shouldn't keep the process alive
+  worker.unref();
+
+  const ready = new Promise<Worker>((resolve, reject) => {
+    worker.once('message', () => resolve(worker));
+    worker.once('error', reject);
+    worker.once('exit', (code) => reject(new Error(`Sandbox exited with code ${code}`)));
+  });
+  worker.on('exit', () => {
+    if (sandbox === ready) sandbox = null;
+  });
+  return ready;
 }
 
-interface Comment {
-  id: number;
-  body: string;
-  author: string;
-  createdAt: string;
+function getSandbox(): Promise<Worker> {
+  sandbox ??= startSandbox();
+  return sandbox;
 }
 
-interface Issue {
-  id: number;
-  repoId: number;
-  repoFullName: string;
-  number: number;
-  title: string;
-  body: string | null;
-  state: string;
-  author: string;
-  labels: string[];
-  comments: Comment[];
-  createdAt: string;
-  updatedAt: string;
-  closedAt: string | null;
+function execute(worker: Worker, call: SandboxCall): Promise<SandboxResult> {
+  const request: SandboxRequest = { ...call, id: nextId++ };
+
+  return new Promise((resolve) => {
+    const finish = (response: SandboxResult) => {
+      clearTimeout(timer);
+      worker.off('message', onMessage);
+      worker.off('error', onError);
+      resolve(response);
+    };
+    const onMessage = (response: SandboxResponse) => {
+      if (response.id === request.id) finish(response);
+    };
+    const onError = (error: Error) => finish({ error: error.message, logs: [] });
+    // Covers async code too (e.g. a promise that never settles), which the vm timeout can't
+    const timer = setTimeout(() => {
+      finish({ error: `Script execution timed out after ${TIMEOUT_MS}ms`, logs: [] });
+      // Forget the worker right away so the next snippet doesn't reach it while it shuts down
+      sandbox = null;
+      void worker.terminate();
+    }, TIMEOUT_MS + 1000);
+
+    worker.on('message', onMessage);
+    worker.on('error', onError);
+    worker.postMessage(request);
+  });
 }
 
-interface Pull {
-  id: number;
-  repoId: number;
-  repoFullName: string;
-  number: number;
-  title: string;
-  body: string | null;
-  state: string;
-  author: string;
-  merged: boolean;
-  mergedAt: string | null;
-  comments: Comment[];
-  createdAt: string;
-  updatedAt: string;
+function runInSandbox(call: SandboxCall): Promise<SandboxResult> {
+  const run = queue.then(async () => execute(await getSandbox(), call));
+  queue = run.catch(() => {});
+  return run;
 }
 
-interface CodemodeData {
-  repos: Repo[];
-  users: User[];
-  issues: Issue[];
-  pulls: Pull[];
-}
-
-function loadData(): CodemodeData {
-  if (cachedData) return cachedData;
-
-  if (!existsSync(DATA_PATH)) {
-    throw new Error(`Data file not found: ${DATA_PATH}\nRun 'pnpm transform:codemode' first.`);
-  }
-
-  console.log('Loading codemode data...');
-  const raw = readFileSync(DATA_PATH, 'utf-8');
-  cachedData = JSON.parse(raw) as CodemodeData;
-  console.log(
-    `Loaded: ${cachedData.repos.length} repos, ${cachedData.users.length} users, ${cachedData.issues.length} issues, ${cachedData.pulls.length} pulls`,
-  );
-  return cachedData;
+// Drop a session's scratch; there's nothing to drop if the worker isn't running
+function closeSession(session: string) {
+  const current = sandbox;
+  if (!current) return;
+  queue = queue
+    .then(async () => {
+      if (sandbox === current) await execute(await current, { session, op: 'close' });
+    })
+    .catch(() => {});
 }
 
 function truncateOutput(output: string): string {
@@ -93,55 +118,134 @@ function truncateOutput(output: string): string {
   return `${truncated}\n\n[OUTPUT TRUNCATED: showing ${MAX_OUTPUT_CHARS.toLocaleString()} of ${output.length.toLocaleString()} characters]`;
 }
 
-export const codemodeTools = {
-  code: tool({
-    description: `Execute JavaScript code to query GitHub data.
+/**
+ * Tools for one agent run. Values the agent stores on \`scratch\` stay available to later
+ * \`code\` calls until \`close()\` is called (or the sandbox restarts after a timeout or crash).
+ */
+export function createCodemodeTools() {
+  const session = randomUUID();
+  // Sandbox generation of this session's last call, to report a lost scratch
+  let lastGeneration: number | null = null;
+
+  const tools = {
+    code: tool({
+      description: `Execute JavaScript code to query GitHub data.
 
 Available in your code:
 - data.repos: Repo[] - all repositories
 - data.users: User[] - all users with activity counts
 - data.issues: Issue[] - all issues with comments
-- data.pulls: Pull[] - all pull requests with comments
+- data.pulls: Pull[] - all pull requests with comments and reviews
+- data.releases: Release[] - published releases
+- data.stars: Star[] - who starred which repo
+- data.forks: Fork[] - forks created from each repo
+- data.refs: Ref[] - branches and tags created or deleted
+- data.members: Member[] - collaborators added to repos
+- data.commits: Commit[] - pushed commits
 
 Types:
 interface Repo { id, owner, name, fullName }
 interface User { id, login, issuesOpened, prsOpened, commentsMade }
-interface Issue { id, repoId, repoFullName, number, title, body, state, author, labels: string[], comments: Comment[], createdAt, updatedAt, closedAt }
-interface Pull { id, repoId, repoFullName, number, title, body, state, author, merged, mergedAt, comments: Comment[], createdAt, updatedAt }
+interface Issue { id, repoId, repoFullName, number, title, body, state, author, labels: string[], comments: Comment[], timeline: TimelineEvent[], createdAt, updatedAt, closedAt }
+interface Pull { id, repoId, repoFullName, number, title, body, state, author, merged, mergedAt, comments: Comment[], reviews: Review[], timeline: TimelineEvent[], createdAt, updatedAt }
 interface Comment { id, body, author, createdAt }
-
-Write a JavaScript expression or function body that returns the answer.
+interface Review { id, author, state, body, submittedAt }
+interface TimelineEvent { id, action, actor, label, createdAt } // oldest first; action: opened, closed, reopened, labeled, merged, ...
+interface Release { id, repoFullName, tagName, name, body, author, draft, prerelease, createdAt, publishedAt }
+interface Star { repoFullName, user, starredAt }
+interface Fork { id, repoFullName, fullName, owner, forkedAt }
+interface Ref { repoFullName, ref, refType, action, actor, createdAt }
+interface Member { repoFullName, login, action, actor, createdAt }
+interface Commit { repoFullName, sha, message, authorName, authorEmail, pushedBy, ref, pushedAt }
+
+\`data\` also has indexed helpers; prefer them over filter() for lookups by repo, author or key:
+${HELPERS_DECLARATIONS}
+
+Write a JavaScript expression or function body that returns the answer. Code runs in an isolated
+sandbox: \`data\` is read-only (copy arrays before sorting them in place), there is no require,
+fs or network, and top-level \`await\` and \`return\` are allowed. console.log output is
+returned along with the result.
+
+Each call starts fresh, except for \`scratch\`: an object that keeps whatever you store on it for
+the rest of this session. Save expensive intermediate results and helper functions there instead
+of recomputing them, e.g. \`scratch.mergedByUser = data.groupCount(data.pulls.filter(p => p.merged), 'author')\`.
+Use listScratch to see what's defined and clearScratch to remove entries.${
+        CODEMODE_TYPECHECK
+          ? `
+
+Code is type-checked against these interfaces before it runs; on type errors (e.g. a misspelled
+property) it is not run and the compiler errors are returned. \`scratch\` is untyped. Start the
+code with // @ts-nocheck to skip the check.`
+          : ''
+      }
 Examples:
 - data.issues.filter(i => i.state === 'open').length
-- data.repos.map(r => r.fullName).slice(0, 10)
-- (() => { const counts = {}; data.issues.forEach(i => counts[i.repoFullName] = (counts[i.repoFullName]||0)+1); return Object.entries(counts).sort((a,b) => b[1]-a[1]).slice(0,5); })()`,
-    inputSchema: z.object({
-      code: z.string().describe('JavaScript code to execute. Can be an expression or IIFE.'),
+- data.byRepo('facebook/react').pulls.filter(p => p.merged).length
+- data.groupCount(data.issues, 'repoFullName').slice(0, 5)
+- data.search('memory leak', { comments: true }).issues.map(i => i.title)`,
+      inputSchema: z.object({
+        code: z.string().describe('JavaScript code to execute. Can be an expression or IIFE.'),
+      }),
+      execute: async ({ code }) => {
+        try {
+          if (CODEMODE_TYPECHECK && !NO_CHECK_PATTERN.test(code)) {
+            const diagnostics = typeCheckSnippet(code);
+            if (diagnostics.length > 0) {
+              return `Type errors (the code was not run):\n${diagnostics.join('\n')}\n\nFix them and try again, or start the code with // @ts-nocheck to run it as is.`;
+            }
+          }
+
+          const { result, error, logs } = await runInSandbox({
+            session,
+            op: 'run',
+            code,
+            asyncBody: returnLastExpression(code),
+            timeoutMs: TIMEOUT_MS,
+          });
+          const restarted = lastGeneration !== null && lastGeneration !== generation;
+          lastGeneration = generation;
+
+          const output = error === undefined ? result! : `Error: ${error}`;
+          return truncateOutput(
+            [
+              ...(restarted
+                ? ['[Sandbox restarted after a timeout or crash: scratch was cleared]\n']
+                : []),
+              ...(logs.length > 0 ? [`Console output:\n${logs.join('\n')}\n`] : []),
+              output,
+            ].join('\n'),
+          );
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          return `Error: ${message}`;
+        }
+      },
     }),
-    execute: async ({ code }) => {
-      try {
-        const data = loadData();
-
-        // Create a sandbox with the data available
-        const sandbox = {
-          data,
-          console: {
-            log: (...args: unknown[]) => args.map((a) => JSON.stringify(a)).join(' '),
-          },
-        };
-
-        // Execute the code in a sandbox
-        const result = runInNewContext(code, sandbox, {
-          timeout: 30000, // 30 second timeout
-        });
-
-        // Format the result
-        const output = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
-        return truncateOutput(output);
-      } catch (error) {
-        const message = error instanceof Error ? error.message : String(error);
-        return `Error: ${message}`;
-      }
-    },
-  }),
-};
+
+    listScratch: tool({
+      description:
+        'List the values stored on `scratch` by earlier code calls, with their types and sizes.',
+      inputSchema: z.object({}),
+      execute: async () => {
+        const { result, error } = await runInSandbox({ session, op: 'list' });
+        return error === undefined ? result! : `Error: ${error}`;
+      },
+    }),
+
+    clearScratch: tool({
+      description: 'Remove values from `scratch` to free memory or start over.',
+      inputSchema: z.object({
+        names: z
+          .array(z.string())
+          .optional()
+          .describe('Names to remove, e.g. ["issuesByRepo"]. Omit to clear everything.'),
+      }),
+      execute: async ({ names }) => {
+        const { result, error } = await runInSandbox({ session, op: 'clear', names });
+        return error === undefined ? result! : `Error: ${error}`;
+      },
+    }),
+  };
+
+  return { tools, close: () => closeSession(session) };
+}
@@ -0,0 +1,170 @@
+/**
+ * Type-checks codemode snippets against the dataset's TypeScript interfaces before they run,
+ * so mistakes like `i.repo_full_name` come back as compiler errors instead of silently
+ * evaluating to `undefined`.
+ *
+ * Snippets are checked as JavaScript (`checkJs`), which flags unknown properties, wrong
+ * helper arguments and writes to the read-only data without demanding annotations.
+ */
+
+import ts from 'typescript';
+import { readDeclarations } from '../data/codemode-shards.js';
+import { HELPERS_DECLARATIONS } from './codemode-helpers.js';
+
+// Virtual files; everything else (the TypeScript lib) is read from disk
+const DECLARATIONS_FILE = '/codemode/globals.d.ts';
+const SNIPPET_FILE = '/codemode/snippet.js';
+
+// Snippets run as the body of an async function so `await` and `return` type-check
+const SNIPPET_PREFIX = 'async function snippet() {\n';
+const SNIPPET_SUFFIX = '\n}\n';
+
+// Semantic errors that block a snippet: ones that point at a real mistake rather than
+// TypeScript strictness about valid JavaScript (`new Date(b) - new Date(a)` is TS2362)
+const BLOCKING_CODES = new Set([
+  2304, // Cannot find name 'x'
+  2552, // Cannot find name 'x'. Did you mean 'y'?
+  2339, // Property 'x' does not exist on type 'T'
+  2551, // Property 'x' does not exist on type 'T'. Did you mean 'y'?
+  2345, // Argument of type 'A' is not assignable to parameter of type 'P'
+  2554, // Expected N arguments, but got M
+  2555, // Expected at least N arguments, but got M
+  2349, // This expression is not callable
+  2540, // Cannot assign to 'x' because it is a read-only property
+  2542, // Index signature in type 'T' only permits reading
+]);
+
+// Past this many, the rest are summarized in one line
+const MAX_DIAGNOSTICS = 10;
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  allowJs: true,
+  checkJs: true,
+  noEmit: true,
+  target: ts.ScriptTarget.ES2022,
+  lib: ['lib.es2023.d.ts'],
+  types: [], // no @types/node: snippets have no require, process or fs
+  strict: false,
+};
+
+// What the sandbox provides besides the dataset interfaces and helpers
+// (the arrays are frozen; typing them readonly turns `data.users.sort()` into a compile error)
+const SANDBOX_GLOBALS = `declare const data: {
+  readonly [K in keyof CodemodeData]: ReadonlyArray<CodemodeData[K][number]>;
+} & CodemodeHelpers;
+declare const scratch: Record<string, any>;
+declare const console: {
+  log(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  debug(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+};`;
+
+let declarations: string | null | undefined;
+
+/**
+ * Ambient declarations visible to snippets: the row interfaces (Repo, Issue, Pull, ...) the
+ * codemode writer stored with the data, the helper API and the sandbox globals. Null when
+ * the data has no stored interfaces.
+ */
+export function codemodeDeclarations(): string | null {
+  if (declarations !== undefined) return declarations;
+  const interfaces = readDeclarations();
+  declarations = interfaces && [interfaces, HELPERS_DECLARATIONS, SANDBOX_GLOBALS].join('\n\n');
+  return declarations;
+}
+
+let warnedMissing = false;
+
+// Created on first use; lib files are parsed once and reused across checks
+let service: ts.LanguageService | null = null;
+let snippet = '';
+let snippetVersion = 0;
+
+function getService(): ts.LanguageService {
+  if (service) return service;
+
+  const virtualFile = (fileName: string) =>
+    fileName === DECLARATIONS_FILE
+      ? (codemodeDeclarations() ?? undefined)
+      : fileName === SNIPPET_FILE
+        ? snippet
+        : undefined;
+
+  const host: ts.LanguageServiceHost = {
+    getCompilationSettings: () => COMPILER_OPTIONS,
+    getScriptFileNames: () => [DECLARATIONS_FILE, SNIPPET_FILE],
+    getScriptVersion: (fileName) => (fileName === SNIPPET_FILE ? String(snippetVersion) : '0'),
+    getScriptSnapshot: (fileName) => {
+      const text = virtualFile(fileName) ?? ts.sys.readFile(fileName);
+      return text === undefined ? undefined : ts.ScriptSnapshot.fromString(text);
+    },
+    getCurrentDirectory: () => '/codemode',
+    getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+    fileExists: (fileName) => virtualFile(fileName) !== undefined || ts.sys.fileExists(fileName),
+    readFile: (fileName) => virtualFile(fileName) ?? ts.sys.readFile(fileName),
+  };
+  service = ts.createLanguageService(host, ts.createDocumentRegistry());
+  return service;
+}
+
+/**
+ * Compiler errors that should stop a snippet from running, one per line as "line N: message
+ * (TSxxxx)" with lines numbered from the start of the snippet. Empty when it type-checks, or
+ * when there are no declarations to check it against.
+ */
+export function typeCheckSnippet(code: string): string[] {
+  if (!codemodeDeclarations()) {
+    if (!warnedMissing) {
+      console.warn(
+        "Codemode data has no type declarations, so snippets aren't type-checked. Re-run 'pnpm transform:codemode'.",
+      );
+      warnedMissing = true;
+    }
+    return [];
+  }
+  const languageService = getService();
+  snippet = SNIPPET_PREFIX + code + SNIPPET_SUFFIX;
+  snippetVersion++;
+
+  const diagnostics = [
+    ...languageService.getSyntacticDiagnostics(SNIPPET_FILE),
+    ...languageService
+      .getSemanticDiagnostics(SNIPPET_FILE)
+      .filter((diagnostic) => BLOCKING_CODES.has(diagnostic.code)),
+  ];
+  const messages = diagnostics.map((diagnostic) => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    if (diagnostic.file && diagnostic.start !== undefined) {
+      // The wrapper adds one line before the snippet
+      const { line } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+      return `line ${Math.max(line, 1)}: ${message} (TS${diagnostic.code})`;
+    }
+    return `${message} (TS${diagnostic.code})`;
+  });
+
+  if (messages.length <= MAX_DIAGNOSTICS) return messages;
+  return [
+    ...messages.slice(0, MAX_DIAGNOSTICS),
+    `... and ${messages.length - MAX_DIAGNOSTICS} more errors`,
+  ];
+}
+
+/**
+ * The snippet with `return` inserted before its last statement if that is an expression, so
+ * `await fetchCount()` run as an async function body returns its value. Parsed here, where
+ * the compiler is already loaded, rather than in the sandbox worker.
+ */
+export function returnLastExpression(code: string): string {
+  const source = ts.createSourceFile(
+    SNIPPET_FILE,
+    SNIPPET_PREFIX + code + SNIPPET_SUFFIX,
+    ts.ScriptTarget.ES2022,
+  );
+  const fn = source.statements[0];
+  const last = fn && ts.isFunctionDeclaration(fn) ? fn.body?.statements.at(-1) : undefined;
+  if (!last || !ts.isExpressionStatement(last)) return code;
+  const start = last.getStart(source) - SNIPPET_PREFIX.length;
+  return `${code.slice(0, start)}return ${code.slice(start)}`;
+}
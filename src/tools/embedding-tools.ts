@@ -1,32 +1,50 @@
 import { tool } from 'ai';
 import { z } from 'zod';
-import { join } from 'path';
 import { readFileSync, existsSync } from 'fs';
-import OpenAI from 'openai';
-
-const EMBEDDINGS_PATH = join(process.cwd(), 'data/embeddings.bin');
-const INDEX_PATH = join(process.cwd(), 'data/embeddings-index.json');
-
-const openai = new OpenAI();
-
-interface EmbeddingIndex {
-  items: Array<{
-    id: number;
-    type: 'issue' | 'pull';
-    repo: string;
-    number: number;
-    title: string;
-    body_preview: string | null;
-    offset: number;
-  }>;
-  dimension: number;
-  count: number;
+import type Database from 'better-sqlite3';
+import { quoteTerms } from './sql-tools.js';
+import { openDatabase } from './sql-readonly.js';
+import {
+  ANN_PATH,
+  annCandidates,
+  defaultProbeCount,
+  dot,
+  normalize,
+  normalizeRows,
+  readAnnIndex,
+  type AnnIndex,
+} from '../data/ann.js';
+import { assertCompatibleIndex, createEmbeddingProvider } from '../data/embedding-providers.js';
+import { EMBEDDINGS_PATH, INDEX_PATH, type EmbeddingIndex } from '../data/embeddings.js';
+
+// Reciprocal-rank fusion constant: higher flattens the advantage of top ranks
+const RRF_K = 60;
+// How deep each ranker looks before fusion
+const CANDIDATES_PER_RANKER = 200;
+// A chunk counts as a hit for its parent when it ranks among this many best chunks
+const CHUNK_HIT_DEPTH = 100;
+// Most issue/PR references getContext resolves per item
+const MAX_LINKED_ITEMS = 20;
+
+// Chosen by EMBEDDING_PROVIDER; must match the provider the index was built with
+const provider = createEmbeddingProvider();
+
+type IndexItem = EmbeddingIndex['items'][number];
+
+// Chunks of the same issue, PR or commit share a parent key
+const parentKey = (item: IndexItem) => `${item.type}-${item.repo}-${item.id}`;
+
+interface EmbeddingsData {
+  index: EmbeddingIndex;
+  embeddings: Float32Array; // unit-length rows, so similarity is a dot product
+  ann: AnnIndex | null; // IVF index, when one was built for the current embeddings
+  itemsByRow: IndexItem[];
 }
 
 // Lazy-loaded embeddings
-let embeddingsData: { index: EmbeddingIndex; embeddings: Float32Array } | null = null;
+let embeddingsData: EmbeddingsData | null = null;
 
-function loadEmbeddings(): { index: EmbeddingIndex; embeddings: Float32Array } {
+function loadEmbeddings(): EmbeddingsData {
   if (embeddingsData) return embeddingsData;
 
   if (!existsSync(INDEX_PATH) || !existsSync(EMBEDDINGS_PATH)) {
@@ -35,15 +53,289 @@ function loadEmbeddings(): { index: EmbeddingIndex; embeddings: Float32Array } {
 
   console.log('Loading pre-computed embeddings...');
   const index: EmbeddingIndex = JSON.parse(readFileSync(INDEX_PATH, 'utf-8'));
+  assertCompatibleIndex(index, provider);
   const buffer = readFileSync(EMBEDDINGS_PATH);
   const embeddings = new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4);
+  if (!index.normalized) normalizeRows(embeddings, index.dimension);
 
-  embeddingsData = { index, embeddings };
-  console.log(`Loaded ${index.count} embeddings (${(buffer.length / 1024 / 1024).toFixed(1)} MB)`);
+  // An index built for a different set of vectors would return wrong rows
+  let ann = readAnnIndex(ANN_PATH);
+  if (ann && ann.count !== index.count) {
+    console.log('ANN index is stale (re-run `pnpm embed`), falling back to exact search');
+    ann = null;
+  }
+
+  const itemsByRow: IndexItem[] = [];
+  for (const item of index.items) itemsByRow[item.offset] = item;
+
+  embeddingsData = { index, embeddings, ann, itemsByRow };
+  console.log(
+    `Loaded ${index.count} embeddings (${(buffer.length / 1024 / 1024).toFixed(1)} MB)${ann ? `, ANN index with ${ann.nlist} lists` : ''}`,
+  );
 
   return embeddingsData;
 }
 
+// Opened like sql-tools' connection, so native modules survive eval bundling. One
+// read-only connection is shared by every tool call.
+let db: Database.Database | null = null;
+
+function getDb(): Database.Database {
+  db ??= openDatabase();
+  return db;
+}
+
+interface SearchFilters {
+  repo?: string;
+  owner?: string;
+  state?: 'open' | 'closed';
+  author?: string;
+  labels?: string[];
+  createdAfter?: string;
+  createdBefore?: string;
+  merged?: boolean;
+}
+
+// Filter parameters shared by the search tools
+const filterSchema = {
+  repo: z.string().optional().describe('Only this repo, like "owner/repo"'),
+  owner: z.string().optional().describe('Only repos of this owner (user or org), like "microsoft"'),
+  state: z.enum(['open', 'closed']).optional().describe('Only issues/PRs in this state'),
+  author: z
+    .string()
+    .optional()
+    .describe('Only issues/PRs opened by this login, or commits pushed by it'),
+  labels: z
+    .array(z.string())
+    .optional()
+    .describe('Only issues with all of these labels (case-insensitive)'),
+  createdAfter: z
+    .string()
+    .optional()
+    .describe('Only items created (commits: pushed) at or after this ISO date/time'),
+  createdBefore: z
+    .string()
+    .optional()
+    .describe('Only items created (commits: pushed) before this ISO date/time'),
+  merged: z.boolean().optional().describe('Only PRs that were (true) or were not (false) merged'),
+};
+
+type EntityType = 'issue' | 'pull';
+type ItemType = EntityType | 'commit';
+
+// Issue/PR metadata used to filter candidates and describe results
+interface EntityRow {
+  type: EntityType;
+  id: number;
+  repo: string;
+  number: number;
+  title: string;
+  state: string;
+  author: string;
+}
+
+// SQL conditions on a table aliased `e` joined with repos as `r`, or null when no row of
+// `type` can match: only issues have labels, only PRs a merged flag, commits no state
+function filterClause(type: ItemType, filters: SearchFilters) {
+  const { repo, owner, state, author, labels, createdAfter, createdBefore, merged } = filters;
+  if (labels?.length && type !== 'issue') return null;
+  if (merged !== undefined && type !== 'pull') return null;
+  if (state && type === 'commit') return null;
+
+  const [authorColumn, createdColumn] =
+    type === 'commit' ? ['pushed_by', 'pushed_at'] : ['author', 'created_at'];
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+  const add = (condition: string, value: string | number) => {
+    conditions.push(condition);
+    params.push(value);
+  };
+  if (repo) add('r.full_name = ?', repo);
+  if (owner) add('r.owner = ?', owner);
+  if (state) add('e.state = ?', state);
+  if (author) add(`e.${authorColumn} = ?`, author);
+  for (const label of labels ?? []) {
+    add('EXISTS (SELECT 1 FROM json_each(e.labels_json) WHERE lower(value) = lower(?))', label);
+  }
+  if (createdAfter) add(`e.${createdColumn} >= ?`, createdAfter);
+  if (createdBefore) add(`e.${createdColumn} < ?`, createdBefore);
+  if (merged !== undefined) add('e.merged = ?', merged ? 1 : 0);
+  return { sql: conditions.map((c) => ` AND ${c}`).join(''), params };
+}
+
+// An empty labels list filters nothing
+const hasFilters = ({ labels, ...rest }: SearchFilters) =>
+  Boolean(labels?.length) || Object.values(rest).some((value) => value !== undefined);
+
+const tableOf = (type: EntityType) => (type === 'issue' ? 'issues' : 'pulls');
+
+// Issues/PRs of `type` passing the filters (only those among `ids`, when given), keyed by id
+function filteredEntities(
+  type: EntityType,
+  filters: SearchFilters,
+  ids?: number[],
+): Map<number, EntityRow> {
+  const clause = filterClause(type, filters);
+  if (!clause) return new Map();
+  const { sql, params } = clause;
+  const idCondition = ids ? ' AND e.id IN (SELECT value FROM json_each(?))' : '';
+  const rows = getDb()
+    .prepare<unknown[], EntityRow>(
+      `SELECT '${type}' as type, e.id, r.full_name as repo, e.number, e.title, e.state, e.author
+       FROM ${tableOf(type)} e JOIN repos r ON r.id = e.repo_id WHERE 1 = 1${sql}${idCondition}`,
+    )
+    .all(...params, ...(ids ? [JSON.stringify(ids)] : []));
+  return new Map(rows.map((row) => [row.id, row]));
+}
+
+// Parent keys (see parentKey) of the issues, PRs and commits of `types` passing the filters
+function allowedParents(types: ItemType[], filters: SearchFilters): Set<string> {
+  const keys = new Set<string>();
+  for (const type of types) {
+    if (type !== 'commit') {
+      for (const e of filteredEntities(type, filters).values())
+        keys.add(`${type}-${e.repo}-${e.id}`);
+      continue;
+    }
+    const clause = filterClause(type, filters);
+    if (!clause) continue;
+    const rows = getDb()
+      .prepare(
+        `SELECT r.full_name as repo, e.sha FROM commits e JOIN repos r ON r.id = e.repo_id
+         WHERE 1 = 1${clause.sql}`,
+      )
+      .all(...clause.params) as Array<{ repo: string; sha: string }>;
+    for (const row of rows) keys.add(`commit-${row.repo}-${row.sha}`);
+  }
+  return keys;
+}
+
+// BM25 matches over title/body from the SQLite FTS5 index (lower score is better)
+function lexicalMatches(
+  type: EntityType,
+  query: string,
+  filters: SearchFilters,
+): Array<{ id: number; score: number }> {
+  const table = tableOf(type);
+  const clause = filterClause(type, filters);
+  if (!clause) return [];
+  const { sql, params } = clause;
+  const statement = getDb().prepare(
+    `SELECT e.id, bm25(${table}_fts, 5.0, 1.0) as score FROM ${table}_fts
+     JOIN ${table} e ON e.id = ${table}_fts.rowid
+     JOIN repos r ON r.id = e.repo_id
+     WHERE ${table}_fts MATCH ?${sql}
+     ORDER BY score LIMIT ?`,
+  );
+  const run = (match: string) =>
+    statement.all(match, ...params, CANDIDATES_PER_RANKER) as Array<{ id: number; score: number }>;
+
+  try {
+    return run(query);
+  } catch {
+    // Not valid FTS5 syntax - match the terms literally
+    return run(quoteTerms(query));
+  }
+}
+
+const itemRefSchema = z.object({
+  repo: z.string().describe('Full repo name like "owner/repo"'),
+  number: z.number().optional().describe('Issue or PR number'),
+  sha: z.string().optional().describe('Commit SHA (for type "commit")'),
+  type: z.enum(['issue', 'pull', 'commit']).describe('Whether this is an issue, PR or commit'),
+});
+
+type ItemRef = z.infer<typeof itemRefSchema>;
+
+// "#123", "owner/repo#123" or a github.com issue/PR URL
+const REFERENCE_PATTERN =
+  /https:\/\/github\.com\/([\w.-]+\/[\w.-]+)\/(?:issues|pull)\/(\d+)|(?<![\w/])([\w.-]+\/[\w.-]+)?#(\d+)\b/g;
+
+// Issues/PRs referenced in `texts`, relative to `repo`, with their title and state when
+// they are in the dataset (type null otherwise)
+function linkedItems(texts: Array<string | null>, repo: string, self?: number) {
+  const refs = new Map<string, { repo: string; number: number }>();
+  for (const text of texts) {
+    for (const match of (text ?? '').matchAll(REFERENCE_PATTERN)) {
+      const ref = { repo: match[1] ?? match[3] ?? repo, number: Number(match[2] ?? match[4]) };
+      if (ref.repo === repo && ref.number === self) continue;
+      refs.set(`${ref.repo}#${ref.number}`, ref);
+    }
+  }
+
+  const lookup = getDb().prepare(
+    `SELECT 'issue' as type, e.title, e.state FROM issues e JOIN repos r ON r.id = e.repo_id
+     WHERE r.full_name = ? AND e.number = ?
+     UNION ALL
+     SELECT 'pull' as type, e.title, e.state FROM pulls e JOIN repos r ON r.id = e.repo_id
+     WHERE r.full_name = ? AND e.number = ?`,
+  );
+  return Array.from(refs.values())
+    .slice(0, MAX_LINKED_ITEMS)
+    .map((ref) => {
+      const found = lookup.get(ref.repo, ref.number, ref.repo, ref.number) as
+        | { type: EntityType; title: string; state: string }
+        | undefined;
+      return {
+        ...ref,
+        type: found?.type ?? null,
+        title: found?.title ?? null,
+        state: found?.state ?? null,
+      };
+    });
+}
+
+// Stored issue or PR row; labels_json is only on issues and merged only on pulls
+type EntityDetails = {
+  id: number;
+  number: number;
+  body: string | null;
+  labels_json?: string | null;
+  merged?: number;
+} & Record<string, unknown>;
+
+// Stored row of one issue, PR or commit with labels decoded, comments and linked items
+function itemContext(ref: ItemRef) {
+  const db = getDb();
+  if (ref.type === 'commit') {
+    const commit = db
+      .prepare<unknown[], { message: string } & Record<string, unknown>>(
+        `SELECT c.*, r.full_name as repo FROM commits c JOIN repos r ON c.repo_id = r.id
+         WHERE r.full_name = ? AND c.sha = ?`,
+      )
+      .get(ref.repo, ref.sha);
+    if (!commit) return { ...ref, error: 'Not found' };
+    return { type: 'commit', ...commit, linked: linkedItems([commit.message], ref.repo) };
+  }
+
+  const table = tableOf(ref.type);
+  const row = db
+    .prepare<unknown[], EntityDetails>(
+      `SELECT e.*, r.full_name as repo FROM ${table} e JOIN repos r ON e.repo_id = r.id
+       WHERE r.full_name = ? AND e.number = ?`,
+    )
+    .get(ref.repo, ref.number);
+  if (!row) return { ...ref, error: 'Not found' };
+
+  const comments = db
+    .prepare(
+      `SELECT id, author, body, created_at FROM comments
+       WHERE ${ref.type === 'issue' ? 'issue_id' : 'pull_id'} = ? ORDER BY created_at, id`,
+    )
+    .all(row.id) as Array<{ id: number; author: string; body: string; created_at: string }>;
+
+  const { labels_json, merged, ...fields } = row;
+  return {
+    type: ref.type,
+    ...fields,
+    ...(ref.type === 'issue'
+      ? { labels: JSON.parse(labels_json || '[]') }
+      : { merged: merged === 1 }),
+    comments,
+    linked: linkedItems([row.body, ...comments.map((c) => c.body)], ref.repo, row.number),
+  };
+}
+
 // Cache for query embeddings
 const queryCache = new Map<string, number[]>();
 
@@ -53,82 +345,81 @@ async function getQueryEmbedding(query: string): Promise<number[]> {
     return queryCache.get(key)!;
   }
 
-  const response = await openai.embeddings.create({
-    model: 'text-embedding-3-small',
-    input: key,
-  });
-
-  const embedding = response.data[0].embedding;
+  const [embedding] = await provider.embed([key]);
   queryCache.set(key, embedding);
   return embedding;
 }
 
-// Cosine similarity
-function cosineSimilarity(
-  a: number[] | Float32Array,
-  b: Float32Array,
-  bOffset: number,
-  dim: number,
-): number {
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
-
-  for (let i = 0; i < dim; i++) {
-    const aVal = a[i];
-    const bVal = b[bOffset + i];
-    dotProduct += aVal * bVal;
-    normA += aVal * aVal;
-    normB += bVal * bVal;
-  }
-
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
-}
-
 export const embeddingTools = {
   searchSimilar: tool({
     description:
-      'Search for issues or PRs semantically similar to a query using embeddings. This finds content that is conceptually related, not just keyword matches.',
+      'Search for issues, PRs or commit messages semantically similar to a query using embeddings. Bodies and comments are embedded in chunks; each result is one issue/PR/commit with the text of its best-matching chunk (body or comment) and how many of its chunks are among the top matches. This finds content that is conceptually related, not just keyword matches. Metadata filters (repo, owner, state, author, labels, created date range, merged) are applied before scoring, so results only come from matching items.',
     inputSchema: z.object({
       query: z.string().describe('Natural language query to search for'),
-      type: z.enum(['issues', 'pulls', 'all']).optional().describe('Type of content to search'),
+      type: z
+        .enum(['issues', 'pulls', 'commits', 'all'])
+        .optional()
+        .describe('Type of content to search'),
+      ...filterSchema,
       limit: z.number().default(10).describe('Maximum number of results'),
     }),
-    execute: async ({ query, type, limit }) => {
-      const { index, embeddings } = loadEmbeddings();
+    execute: async ({ query, type, limit, ...filters }) => {
+      const { index, embeddings, ann, itemsByRow } = loadEmbeddings();
       const dim = index.dimension;
 
       // Get query embedding (single API call)
-      const queryEmbedding = await getQueryEmbedding(query);
-
-      // Filter items by type
-      let items = index.items;
-      if (type === 'issues') {
-        items = items.filter((i) => i.type === 'issue');
-      } else if (type === 'pulls') {
-        items = items.filter((i) => i.type === 'pull');
+      const queryEmbedding = normalize(await getQueryEmbedding(query));
+
+      const wanted = ({ issues: 'issue', pulls: 'pull', commits: 'commit', all: null } as const)[
+        type ?? 'all'
+      ];
+      // Filters are resolved against SQLite up front, so only matching items get scored
+      const allowed = hasFilters(filters)
+        ? allowedParents(wanted ? [wanted] : ['issue', 'pull', 'commit'], filters)
+        : null;
+      const matches = (item: IndexItem) =>
+        (!wanted || item.type === wanted) && (!allowed || allowed.has(parentKey(item)));
+
+      // Score only the chunks in the nearest IVF clusters; if the filters leave too few
+      // parents among them, fall back to scanning everything
+      let items = index.items.filter(matches);
+      if (ann) {
+        const candidates = annCandidates(ann, queryEmbedding, defaultProbeCount(ann.nlist))
+          .map((row) => itemsByRow[row])
+          .filter(matches);
+        if (new Set(candidates.map(parentKey)).size >= limit) items = candidates;
       }
 
       // Compute similarities
-      const results: Array<{ item: (typeof items)[0]; similarity: number }> = [];
+      const scored = items
+        .map((item) => ({ item, similarity: dot(queryEmbedding, embeddings, item.offset, dim) }))
+        .sort((a, b) => b.similarity - a.similarity);
 
-      for (const item of items) {
-        const similarity = cosineSimilarity(queryEmbedding, embeddings, item.offset * dim, dim);
-        results.push({ item, similarity });
-      }
+      // Group chunks by parent: a parent scores as its best chunk, and counts the hits
+      // it has among the top chunks overall
+      const results = new Map<string, { best: IndexItem; similarity: number; hits: number }>();
+      scored.forEach(({ item, similarity }, rank) => {
+        const key = parentKey(item);
+        if (!results.has(key)) results.set(key, { best: item, similarity, hits: 0 });
+        if (rank < CHUNK_HIT_DEPTH) results.get(key)!.hits++;
+      });
 
-      // Sort by similarity and return top results
-      results.sort((a, b) => b.similarity - a.similarity);
-      const topResults = results.slice(0, limit);
+      // Map keeps insertion order, which is best-chunk order
+      const topResults = Array.from(results.values()).slice(0, limit);
 
       return JSON.stringify(
-        topResults.map((r) => ({
-          type: r.item.type,
-          repo: r.item.repo,
-          number: r.item.number,
-          title: r.item.title,
-          similarity: r.similarity.toFixed(4),
-          body_preview: r.item.body_preview,
+        topResults.map(({ best, similarity, hits }) => ({
+          type: best.type,
+          repo: best.repo,
+          ...(best.type === 'commit' ? { sha: best.id } : { number: best.number }),
+          title: best.title,
+          similarity: similarity.toFixed(4),
+          chunkHits: hits,
+          match: {
+            source: best.chunk?.source ?? 'body',
+            commentId: best.chunk?.comment_id ?? null,
+            text: best.chunk?.text ?? best.body_preview,
+          },
         })),
         null,
         2,
@@ -136,46 +427,161 @@ export const embeddingTools = {
     },
   }),
 
+  hybridSearch: tool({
+    description:
+      'Search issues and PRs by combining keyword (BM25) and semantic (embedding) rankings with reciprocal-rank fusion. Best when the query mixes exact identifiers (error codes, package names, CVEs) with natural language. Supports filters on type, repo, owner, state, author, labels, created date range and merged.',
+    inputSchema: z.object({
+      query: z.string().describe('Search query - keywords, identifiers and/or natural language'),
+      type: z.enum(['issues', 'pulls', 'all']).default('all').describe('Type of content to search'),
+      ...filterSchema,
+      limit: z.number().default(10).describe('Maximum number of results'),
+    }),
+    execute: async ({ query, type, limit, ...filters }) => {
+      // Blank queries aren't valid FTS5, even with their terms quoted
+      if (!query.trim()) {
+        return JSON.stringify(
+          { error: 'empty_query', message: 'The search query is empty' },
+          null,
+          2,
+        );
+      }
+      const { index, embeddings, ann, itemsByRow } = loadEmbeddings();
+      const dim = index.dimension;
+      const types: EntityType[] =
+        type === 'issues' ? ['issue'] : type === 'pulls' ? ['pull'] : ['issue', 'pull'];
+
+      const queryEmbedding = normalize(await getQueryEmbedding(query));
+
+      // Fused score per "type-id": sum of 1 / (k + rank) over the rankers that found it
+      const fused = new Map<
+        string,
+        { entity: EntityRow; score: number; lexicalRank?: number; semanticRank?: number }
+      >();
+      const addRank = (entity: EntityRow, ranker: 'lexicalRank' | 'semanticRank', rank: number) => {
+        const key = `${entity.type}-${entity.id}`;
+        const entry = fused.get(key) ?? { entity, score: 0 };
+        entry.score += 1 / (RRF_K + rank);
+        entry[ranker] = rank;
+        fused.set(key, entry);
+      };
+
+      // The issues/PRs among `refs` passing the filters, keyed like the fused map
+      const lookUp = (refs: Array<{ type: EntityType; id: number }>) => {
+        const found = new Map<string, EntityRow>();
+        for (const entityType of types) {
+          const ids = refs.filter((ref) => ref.type === entityType).map((ref) => ref.id);
+          if (!ids.length) continue;
+          for (const entity of filteredEntities(entityType, filters, ids).values()) {
+            found.set(`${entityType}-${entity.id}`, entity);
+          }
+        }
+        return found;
+      };
+
+      // An issue/PR's similarity is that of its best-matching chunk
+      const bestSimilarities = (items: IndexItem[]) => {
+        const best = new Map<string, { type: EntityType; id: number; similarity: number }>();
+        for (const item of items) {
+          if (item.type === 'commit' || !types.includes(item.type)) continue;
+          const key = `${item.type}-${item.id}`;
+          const similarity = dot(queryEmbedding, embeddings, item.offset, dim);
+          if (similarity > (best.get(key)?.similarity ?? -Infinity)) {
+            best.set(key, { type: item.type, id: Number(item.id), similarity });
+          }
+        }
+        return best;
+      };
+
+      // Score only the chunks in the nearest IVF clusters, then keep the issues/PRs the
+      // filters let through; if too few are left, fall back to scanning everything
+      let similarities = bestSimilarities(
+        ann
+          ? annCandidates(ann, queryEmbedding, defaultProbeCount(ann.nlist)).map(
+              (row) => itemsByRow[row],
+            )
+          : index.items,
+      );
+      let entities = lookUp(Array.from(similarities.values()));
+      if (ann && entities.size < limit) {
+        similarities = bestSimilarities(index.items);
+        entities = lookUp(Array.from(similarities.values()));
+      }
+
+      const lexical = types.flatMap((entityType) =>
+        lexicalMatches(entityType, query, filters).map((m) => ({
+          type: entityType,
+          id: m.id,
+          key: `${entityType}-${m.id}`,
+          score: m.score,
+        })),
+      );
+      for (const [key, entity] of lookUp(lexical.filter(({ key }) => !entities.has(key)))) {
+        entities.set(key, entity);
+      }
+
+      lexical
+        .sort((a, b) => a.score - b.score)
+        .slice(0, CANDIDATES_PER_RANKER)
+        .forEach(({ key }, i) => addRank(entities.get(key)!, 'lexicalRank', i + 1));
+
+      Array.from(similarities)
+        .filter(([key]) => entities.has(key))
+        .sort((a, b) => b[1].similarity - a[1].similarity)
+        .slice(0, CANDIDATES_PER_RANKER)
+        .forEach(([key], i) => addRank(entities.get(key)!, 'semanticRank', i + 1));
+
+      const results = Array.from(fused.entries())
+        .sort((a, b) => b[1].score - a[1].score)
+        .slice(0, limit)
+        .map(([key, { entity, score, lexicalRank, semanticRank }]) => ({
+          type: entity.type,
+          repo: entity.repo,
+          number: entity.number,
+          title: entity.title,
+          state: entity.state,
+          author: entity.author,
+          score: score.toFixed(4),
+          lexicalRank: lexicalRank ?? null,
+          semanticRank: semanticRank ?? null,
+          similarity: similarities.get(key)?.similarity.toFixed(4) ?? null,
+        }));
+
+      return JSON.stringify(results, null, 2);
+    },
+  }),
+
   getContext: tool({
-    description: 'Get full details of an issue or PR by repo and number',
+    description:
+      'Get full details of issues, PRs (by repo and number) or commits (by repo and SHA): the stored fields, decoded labels, all comments, and the issues/PRs they reference (#123, owner/repo#123 or GitHub URLs). Pass `items` to look up several at once.',
     inputSchema: z.object({
-      repo: z.string().describe('Full repo name like "owner/repo"'),
-      number: z.number().describe('Issue or PR number'),
-      type: z.enum(['issue', 'pull']).describe('Whether this is an issue or pull request'),
+      repo: z.string().optional().describe('Full repo name like "owner/repo"'),
+      number: z.number().optional().describe('Issue or PR number'),
+      sha: z.string().optional().describe('Commit SHA (for type "commit")'),
+      type: z
+        .enum(['issue', 'pull', 'commit'])
+        .optional()
+        .describe('Whether this is an issue, pull request or commit'),
+      items: z
+        .array(itemRefSchema)
+        .optional()
+        .describe('Several items to look up in one call, instead of repo/number/sha/type'),
     }),
-    execute: async ({ repo, number, type }) => {
-      // Import database lazily to avoid circular deps
-      const Database = (await import('better-sqlite3')).default;
-      const DB_PATH = join(process.cwd(), 'data/database.sqlite');
-      const database = new Database(DB_PATH, { readonly: true });
-
-      if (type === 'issue') {
-        const result = database
-          .prepare(
-            `
-            SELECT i.*, r.full_name as repo
-            FROM issues i
-            JOIN repos r ON i.repo_id = r.id
-            WHERE r.full_name = ? AND i.number = ?
-          `,
-          )
-          .get(repo, number);
-        database.close();
-        return JSON.stringify(result, null, 2);
-      } else {
-        const result = database
-          .prepare(
-            `
-            SELECT p.*, r.full_name as repo
-            FROM pulls p
-            JOIN repos r ON p.repo_id = r.id
-            WHERE r.full_name = ? AND p.number = ?
-          `,
-          )
-          .get(repo, number);
-        database.close();
-        return JSON.stringify(result, null, 2);
+    execute: async ({ repo, number, sha, type, items }) => {
+      if (items) {
+        return JSON.stringify(
+          items.map((ref) => itemContext(ref)),
+          null,
+          2,
+        );
+      }
+      if (!repo || !type) {
+        return JSON.stringify(
+          { error: 'missing_item', message: 'Pass repo and type (plus number or sha), or items' },
+          null,
+          2,
+        );
       }
+      return JSON.stringify(itemContext({ repo, number, sha, type }), null, 2);
     },
   }),
 };
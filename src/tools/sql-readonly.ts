@@ -0,0 +1,95 @@
+import { join } from 'path';
+import { createRequire } from 'module';
+import type Database from 'better-sqlite3';
+
+// Shared by the SQL tools and the process that runs their queries (sql-runner.ts)
+
+const DB_PATH = join(import.meta.dirname, '../../data/database.sqlite');
+
+// Rows kept per query; reading stops once it is reached
+export const MAX_ROWS = 1000;
+
+// Use createRequire to load better-sqlite3 from the actual node_modules path
+// This bypasses the Braintrust CLI's eval bundling which breaks native modules
+export function openDatabase(): Database.Database {
+  const require = createRequire(join(process.cwd(), 'package.json'));
+  const BetterSqlite3: typeof Database = require('better-sqlite3');
+  const database = new BetterSqlite3(DB_PATH, { readonly: true });
+  database.pragma('query_only = ON');
+  return database;
+}
+
+// A query the tools refuse to run or finish; reported to the model rather than thrown
+export class QueryRejected extends Error {
+  constructor(
+    readonly code:
+      | 'not_read_only'
+      | 'multiple_statements'
+      | 'timeout'
+      | 'unknown_table'
+      | 'unknown_column'
+      | 'unknown_cursor'
+      | 'empty_query',
+    message: string,
+    readonly hint: string,
+  ) {
+    super(message);
+  }
+}
+
+// Compile `sql`, accepting only a single statement that reads rows without writing
+export function prepareReadOnly(
+  database: Database.Database,
+  sql: string,
+): Database.Statement<unknown[], Record<string, unknown>> {
+  let statement;
+  try {
+    statement = database.prepare<unknown[], Record<string, unknown>>(sql);
+  } catch (e) {
+    if (e instanceof RangeError && e.message.includes('more than one statement')) {
+      throw new QueryRejected(
+        'multiple_statements',
+        'Only one SQL statement can be run per call',
+        'Run each statement in its own call.',
+      );
+    }
+    throw e;
+  }
+
+  // readonly: the statement can't modify the database; reader: it returns rows
+  // (ATTACH, PRAGMA assignments and the like are read-only but return nothing)
+  if (!statement.readonly || !statement.reader) {
+    throw new QueryRejected(
+      'not_read_only',
+      'Only read-only queries that return rows are allowed',
+      'Use SELECT (or WITH ... SELECT).',
+    );
+  }
+  return statement;
+}
+
+export interface QueryResult {
+  columns: string[];
+  rows: Record<string, unknown>[];
+  truncated: boolean; // stopped at MAX_ROWS
+}
+
+// Run a read-only query, stopping at MAX_ROWS rows
+export function readRows(
+  database: Database.Database,
+  sql: string,
+  params: unknown[] = [],
+): QueryResult {
+  const statement = prepareReadOnly(database, sql);
+  const columns = statement.columns().map((c) => c.name);
+  const rows: Record<string, unknown>[] = [];
+  let truncated = false;
+  for (const row of statement.iterate(...params)) {
+    if (rows.length === MAX_ROWS) {
+      truncated = true;
+      break;
+    }
+    rows.push(row);
+  }
+  return { columns, rows, truncated };
+}
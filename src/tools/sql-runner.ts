@@ -0,0 +1,50 @@
+/**
+ * Child process that runs the SQL tools' queries. better-sqlite3 can't interrupt a running
+ * statement, and a worker thread blocked inside SQLite can't be terminated either, so the
+ * host (sql-tools.ts) kills this process when a query passes its deadline.
+ */
+
+import { openDatabase, QueryRejected, readRows, type QueryResult } from './sql-readonly.js';
+
+export interface RunnerRequest {
+  id: number;
+  sql: string;
+  params: unknown[];
+}
+
+// Errors are sent as plain fields: class, `code` and `hint` don't survive serialization
+export interface RunnerError {
+  name: string;
+  message: string;
+  code?: string;
+  hint?: string;
+  rejected: boolean; // a QueryRejected
+}
+
+export type RunnerResponse = { id: number } & ({ result: QueryResult } | { error: RunnerError });
+
+function toRunnerError(e: unknown): RunnerError {
+  if (!(e instanceof Error)) return { name: 'Error', message: String(e), rejected: false };
+  return {
+    name: e.name,
+    message: e.message,
+    code: 'code' in e && typeof e.code === 'string' ? e.code : undefined,
+    hint: e instanceof QueryRejected ? e.hint : undefined,
+    rejected: e instanceof QueryRejected,
+  };
+}
+
+const database = openDatabase();
+
+process.on('message', ({ id, sql, params }: RunnerRequest) => {
+  let response: RunnerResponse;
+  try {
+    response = { id, result: readRows(database, sql, params) };
+  } catch (e) {
+    response = { id, error: toRunnerError(e) };
+  }
+  process.send!(response);
+});
+// Exit along with the host
+process.on('disconnect', () => process.exit(0));
+process.send!({ ready: true });
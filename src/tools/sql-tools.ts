@@ -1,57 +1,552 @@
 import { tool } from 'ai';
 import { z } from 'zod';
+import { fork, type ChildProcess } from 'child_process';
 import { join } from 'path';
-import { createRequire } from 'module';
+import type Database from 'better-sqlite3';
+import {
+  MAX_ROWS,
+  openDatabase,
+  prepareReadOnly,
+  QueryRejected,
+  type QueryResult,
+} from './sql-readonly.js';
+import type { RunnerError, RunnerRequest, RunnerResponse } from './sql-runner.js';
 
-const DB_PATH = join(process.cwd(), 'data/database.sqlite');
 const MAX_OUTPUT_CHARS = 30000;
 
+// Per-query time limit. better-sqlite3 has no progress handler or interrupt, so queries run
+// in a child process that is killed at the deadline (see sql-runner.ts)
+const QUERY_TIMEOUT_MS = 10000;
+// Runner path relative to project root, like the agent workers
+const RUNNER_PATH = join(process.cwd(), 'src/tools/sql-runner.ts');
+
+// Rows per page of query/next output, unless the caller asks for another size. Pages also
+// end early, at a row boundary, before they would exceed MAX_OUTPUT_CHARS.
+const DEFAULT_PAGE_SIZE = 100;
+// Result sets kept for next; the oldest is dropped first
+const MAX_CURSORS = 20;
+
+// Query-plan feedback (the explain tool and full-scan warnings on query). Set
+// SQL_PLAN_FEEDBACK=off to compare against agents querying blind.
+export const SQL_PLAN_FEEDBACK = process.env.SQL_PLAN_FEEDBACK !== 'off';
+
+// Tables big enough that scanning them end to end is worth a warning
+const LARGE_TABLES = new Set(['events', 'comments']);
+
 function truncateOutput(output: string): string {
   if (output.length <= MAX_OUTPUT_CHARS) return output;
   const truncated = output.slice(0, MAX_OUTPUT_CHARS);
   return `${truncated}\n\n[OUTPUT TRUNCATED: showing ${MAX_OUTPUT_CHARS.toLocaleString()} of ${output.length.toLocaleString()} characters. Use LIMIT or more specific WHERE clauses to narrow results.]`;
 }
 
-// Use createRequire to load better-sqlite3 from the actual node_modules path
-// This bypasses the Braintrust CLI's eval bundling which breaks native modules
-let db: any = null;
+// In-process connection for schema lookups, query plans and search, which can't run long
+let db: Database.Database | null = null;
 
-async function getDb(): Promise<any> {
-  if (!db) {
-    const require = createRequire(join(process.cwd(), 'package.json'));
-    const Database = require('better-sqlite3');
-    db = new Database(DB_PATH, { readonly: true });
-  }
+async function getDb(): Promise<Database.Database> {
+  db ??= openDatabase();
   return db;
 }
 
+// The query runner, started on first use and restarted after a timeout or crash
+let runner: Promise<ChildProcess> | null = null;
+// Queries run one at a time, so a timeout only ever kills the query that caused it
+let queue: Promise<unknown> = Promise.resolve();
+let nextId = 0;
+
+// An idle runner shouldn't keep the process alive, but a busy one must
+function holdOpen(child: ChildProcess, busy: boolean) {
+  if (busy) {
+    child.ref();
+    child.channel?.ref();
+  } else {
+    child.unref();
+    child.channel?.unref();
+  }
+}
+
+function startRunner(): Promise<ChildProcess> {
+  const child = fork(RUNNER_PATH, [], {
+    execArgv: ['--import', 'tsx'],
+    // Keeps Buffers (BLOB columns) intact on the way back
+    serialization: 'advanced',
+  });
+  const ready = new Promise<ChildProcess>((resolve, reject) => {
+    child.once('message', () => resolve(child));
+    child.once('error', reject);
+    child.once('exit', (code) => reject(new Error(`SQL runner exited with code ${code}`)));
+  });
+  child.on('exit', () => {
+    if (runner === ready) runner = null;
+  });
+  return ready;
+}
+
+// Rebuild the error a query threw in the runner, so queryError can classify it
+function runnerError({ name, message, code, hint, rejected }: RunnerError): Error {
+  if (rejected) return new QueryRejected(code as QueryRejected['code'], message, hint!);
+  const error =
+    name === 'RangeError'
+      ? new RangeError(message)
+      : name === 'TypeError'
+        ? new TypeError(message)
+        : new Error(message);
+  return Object.assign(error, { code });
+}
+
+function execute(child: ChildProcess, sql: string, params: unknown[]): Promise<QueryResult> {
+  const request: RunnerRequest = { id: nextId++, sql, params };
+
+  return new Promise((resolve, reject) => {
+    const finish = () => {
+      holdOpen(child, false);
+      clearTimeout(timer);
+      child.off('message', onMessage);
+      child.off('exit', onExit);
+    };
+    const onMessage = (response: RunnerResponse) => {
+      if (response.id !== request.id) return;
+      finish();
+      if ('error' in response) reject(runnerError(response.error));
+      else resolve(response.result);
+    };
+    const onExit = (code: number | null) => {
+      finish();
+      reject(new Error(`SQL runner exited with code ${code}`));
+    };
+    const timer = setTimeout(() => {
+      finish();
+      // Forget the runner right away so the next query doesn't reach it while it dies
+      runner = null;
+      child.kill('SIGKILL');
+      reject(
+        new QueryRejected(
+          'timeout',
+          `Query ran longer than ${QUERY_TIMEOUT_MS / 1000}s`,
+          'Narrow it with WHERE conditions on indexed columns, or aggregate fewer rows.',
+        ),
+      );
+    }, QUERY_TIMEOUT_MS);
+
+    holdOpen(child, true);
+    child.on('message', onMessage);
+    child.on('exit', onExit);
+    child.send(request);
+  });
+}
+
+// Run a read-only query in the runner, stopping at MAX_ROWS rows or QUERY_TIMEOUT_MS
+function runReadOnly(sql: string, params: unknown[] = []): Promise<QueryResult> {
+  const run = queue.then(async () => {
+    runner ??= startRunner();
+    return execute(await runner, sql, params);
+  });
+  queue = run.catch(() => {});
+  return run;
+}
+
+type OutputFormat = 'json' | 'csv' | 'tsv';
+
+// A query result being read page by page
+interface Cursor extends QueryResult {
+  offset: number; // first row of the next page
+}
+
+const cursors = new Map<string, Cursor>();
+let cursorCount = 0;
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// TSV has no quoting, so tabs and line breaks inside values are escaped
+function tsvCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value).replace(/\\/g, '\\\\').replace(/\t/g, '\\t').replace(/\r?\n/g, '\\n');
+}
+
+function formatRows(columns: string[], rows: Record<string, unknown>[], format: OutputFormat) {
+  if (format === 'json') {
+    const projected = rows.map((row) => Object.fromEntries(columns.map((c) => [c, row[c]])));
+    return JSON.stringify(projected, null, 2);
+  }
+  const [cell, separator] = format === 'csv' ? [csvCell, ','] : [tsvCell, '\t'];
+  return [columns, ...rows.map((row) => columns.map((c) => row[c]))]
+    .map((values) => values.map(cell).join(separator))
+    .join('\n');
+}
+
+// Render the next page of `cursor` and advance it: a row-count header, whole rows in
+// `format`, and how to get the rest
+function nextPage(
+  id: string,
+  cursor: Cursor,
+  { format, pageSize, columns }: { format: OutputFormat; pageSize: number; columns?: string[] },
+): string {
+  const selected = columns?.length ? columns : cursor.columns;
+  const unknown = selected.filter((c) => !cursor.columns.includes(c));
+  if (unknown.length > 0) {
+    throw new QueryRejected(
+      'unknown_column',
+      `No result column named ${unknown.map((c) => `"${c}"`).join(', ')}`,
+      `Result columns: ${cursor.columns.join(', ')}.`,
+    );
+  }
+
+  // Take whole rows while they fit; a single oversized row still makes up a page
+  const start = cursor.offset;
+  const end = Math.min(start + pageSize, cursor.rows.length);
+  const empty = formatRows(selected, [], format).length; // header line or "[]"
+  let size = empty;
+  let last = start;
+  while (last < end) {
+    size += formatRows(selected, [cursor.rows[last]], format).length - empty;
+    if (size > MAX_OUTPUT_CHARS && last > start) break;
+    last++;
+  }
+  cursor.offset = last;
+
+  const total = `${cursor.rows.length}${cursor.truncated ? '+ (row limit reached, narrow the query to see the rest)' : ''}`;
+  const range = last > start ? `Rows ${start + 1}-${last} of ${total}` : `0 rows`;
+  let output = `${range}. Columns: ${selected.join(', ')}\n${formatRows(selected, cursor.rows.slice(start, last), format)}`;
+
+  if (last < cursor.rows.length) {
+    output += `\n\n[MORE ROWS: ${cursor.rows.length - last} left. Call next with cursor "${id}" to continue.]`;
+  } else {
+    cursors.delete(id);
+  }
+  return truncateOutput(output);
+}
+
+// Keep a result for next, evicting the oldest once there are too many
+function openCursor(cursor: Omit<Cursor, 'offset'>): [string, Cursor] {
+  const id = `q${++cursorCount}`;
+  const opened = { ...cursor, offset: 0 };
+  cursors.set(id, opened);
+  if (cursors.size > MAX_CURSORS) cursors.delete(cursors.keys().next().value!);
+  return [id, opened];
+}
+
+// Structured error for the model, or rethrow if it isn't a query problem
+function queryError(e: unknown): string {
+  if (e instanceof QueryRejected) {
+    return JSON.stringify({ error: e.code, message: e.message, hint: e.hint }, null, 2);
+  }
+  if (!(e instanceof Error)) throw e;
+  // SqliteError (and errors rebuilt from the runner) carry SQLite's result code
+  const code = 'code' in e && typeof e.code === 'string' ? e.code : null;
+  if (code?.startsWith('SQLITE_') || e instanceof RangeError || e instanceof TypeError) {
+    return JSON.stringify(
+      {
+        error: 'sql_error',
+        code,
+        message: e.message,
+        hint: 'Check table and column names with the schema tool.',
+      },
+      null,
+      2,
+    );
+  }
+  throw e;
+}
+
+function assertTable(database: Database.Database, table: string) {
+  const exists = database
+    .prepare(`SELECT 1 FROM sqlite_master WHERE ${USER_TABLES} AND name = ?`)
+    .get(table);
+  if (!exists) {
+    throw new QueryRejected('unknown_table', `No table named "${table}"`, 'List them with tables.');
+  }
+}
+
+// FTS5 shadow tables (issues_fts_data, ...) are implementation details, not for querying
+const USER_TABLES = `type='table' AND name NOT LIKE 'sqlite_%' AND name NOT LIKE '%_fts_%'`;
+
+// Words that can follow a table name in FROM/JOIN without being its alias
+const NOT_ALIASES = new Set(
+  'where join on using left right full inner outer cross natural group order limit having window union except intersect as'.split(
+    ' ',
+  ),
+);
+
+// Map the names EXPLAIN QUERY PLAN reports (aliases like "i") to the tables they stand for
+function tableAliases(sql: string): Map<string, string> {
+  const aliases = new Map<string, string>();
+  for (const [, table, alias] of sql.matchAll(
+    /\b(?:FROM|JOIN)\s+"?(\w+)"?(?:\s+(?:AS\s+)?"?(\w+)"?)?/gi,
+  )) {
+    aliases.set(table, table);
+    if (alias && !NOT_ALIASES.has(alias.toLowerCase())) aliases.set(alias, table);
+  }
+  return aliases;
+}
+
+interface PlanStep {
+  detail: string;
+  depth: number;
+  table: string | null;
+  index: string | null; // null for full scans and rowid lookups
+  fullScan: boolean; // reads every row of the table
+  estimatedRows: number | null; // from sqlite_stat1, written by ANALYZE at build time
+}
+
+// EXPLAIN QUERY PLAN for `sql`, with each step's table, index and estimated row count
+function queryPlan(database: Database.Database, sql: string): PlanStep[] {
+  const rows = database.prepare(`EXPLAIN QUERY PLAN ${sql}`).all() as Array<{
+    id: number;
+    parent: number;
+    detail: string;
+  }>;
+
+  // sqlite_stat1 rows are "<rows> <rows per key on 1st column> <... on 1st+2nd> ..."
+  const stats = new Map<string, number[]>();
+  const hasStats = database
+    .prepare(`SELECT 1 FROM sqlite_master WHERE name = 'sqlite_stat1'`)
+    .get();
+  if (hasStats) {
+    for (const { tbl, idx, stat } of database
+      .prepare('SELECT tbl, idx, stat FROM sqlite_stat1')
+      .all() as Array<{ tbl: string; idx: string | null; stat: string }>) {
+      const numbers = stat.split(' ').map(Number);
+      stats.set(idx ?? tbl, numbers);
+      if (!stats.has(tbl)) stats.set(tbl, numbers.slice(0, 1));
+    }
+  }
+
+  const aliases = tableAliases(sql);
+  const depths = new Map<number, number>([[0, -1]]);
+  return rows.map(({ id, parent, detail }) => {
+    const depth = (depths.get(parent) ?? -1) + 1;
+    depths.set(id, depth);
+
+    const match = /^(SCAN|SEARCH) (\w+)(?: USING (?:COVERING )?INDEX (\w+))?/.exec(detail);
+    if (!match || detail.includes('VIRTUAL TABLE')) {
+      return { detail, depth, table: null, index: null, fullScan: false, estimatedRows: null };
+    }
+
+    const [, access, name, index] = match;
+    const table = aliases.get(name) ?? name;
+    const tableRows = stats.get(table)?.[0] ?? null;
+    let estimatedRows = tableRows;
+    if (access === 'SEARCH' && detail.includes('(rowid=?)')) {
+      estimatedRows = 1;
+    } else if (access === 'SEARCH' && index) {
+      // Each "col=?" narrows to the rows-per-key figure for that many leading columns
+      const equalities = (detail.match(/\w+=\?/g) ?? []).length;
+      estimatedRows = stats.get(index)?.[equalities] ?? tableRows;
+    }
+
+    return {
+      detail,
+      depth,
+      table,
+      index: index ?? null,
+      // Scanning a covering index reads every entry too, but not the rows themselves
+      fullScan: access === 'SCAN' && !index,
+      estimatedRows,
+    };
+  });
+}
+
+// Warnings for full scans of large tables, naming the indexed columns to filter on instead
+function planWarnings(database: Database.Database, plan: PlanStep[]): string[] {
+  return plan
+    .filter((step) => step.fullScan && step.table && LARGE_TABLES.has(step.table))
+    .map((step) => {
+      const indexed = database
+        .prepare(
+          `SELECT DISTINCT ii.name FROM pragma_index_list(?) il, pragma_index_info(il.name) ii
+           WHERE ii.seqno = 0`,
+        )
+        .all(step.table) as Array<{ name: string }>;
+      const rows = step.estimatedRows !== null ? ` (~${step.estimatedRows} rows)` : '';
+      const columns = indexed.map((c) => c.name).join(', ');
+      return `Full scan of ${step.table}${rows}.${columns ? ` Indexed columns: ${columns}.` : ''}`;
+    });
+}
+
+// Ranked full-text queries per content type. bm25() is lower-is-better; titles weigh 5x bodies.
+const SEARCH_QUERIES = {
+  issues: `
+    SELECT 'issue' as type, r.full_name as repo, i.number, i.title, i.author,
+      snippet(issues_fts, -1, '[', ']', '…', 16) as snippet,
+      bm25(issues_fts, 5.0, 1.0) as rank
+    FROM issues_fts
+    JOIN issues i ON i.id = issues_fts.rowid
+    JOIN repos r ON r.id = i.repo_id
+    WHERE issues_fts MATCH ?
+    ORDER BY rank LIMIT ?`,
+  pulls: `
+    SELECT 'pull' as type, r.full_name as repo, p.number, p.title, p.author,
+      snippet(pulls_fts, -1, '[', ']', '…', 16) as snippet,
+      bm25(pulls_fts, 5.0, 1.0) as rank
+    FROM pulls_fts
+    JOIN pulls p ON p.id = pulls_fts.rowid
+    JOIN repos r ON r.id = p.repo_id
+    WHERE pulls_fts MATCH ?
+    ORDER BY rank LIMIT ?`,
+  comments: `
+    SELECT CASE WHEN c.issue_id IS NOT NULL THEN 'issue_comment' ELSE 'pull_comment' END as type,
+      r.full_name as repo, COALESCE(i.number, p.number) as number,
+      COALESCE(i.title, p.title) as title, c.author,
+      snippet(comments_fts, 0, '[', ']', '…', 16) as snippet,
+      bm25(comments_fts) as rank
+    FROM comments_fts
+    JOIN comments c ON c.id = comments_fts.rowid
+    LEFT JOIN issues i ON i.id = c.issue_id
+    LEFT JOIN pulls p ON p.id = c.pull_id
+    JOIN repos r ON r.id = COALESCE(i.repo_id, p.repo_id)
+    WHERE comments_fts MATCH ?
+    ORDER BY rank LIMIT ?`,
+};
+
+// Paging and projection options shared by query and next
+const pageSchema = {
+  format: z
+    .enum(['json', 'csv', 'tsv'])
+    .default('json')
+    .describe(
+      'json: array of row objects; csv/tsv: header line plus one line per row, far more compact',
+    ),
+  pageSize: z
+    .number()
+    .int()
+    .positive()
+    .default(DEFAULT_PAGE_SIZE)
+    .describe('Rows per page (pages also end before getting too long)'),
+  columns: z
+    .array(z.string())
+    .optional()
+    .describe('Only output these result columns, in this order'),
+};
+
+// Quote every term so free text like "CVE-2024-1234" or "what's new?" isn't parsed as FTS5 syntax
+export function quoteTerms(query: string): string {
+  return query
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((term) => `"${term.replace(/"/g, '""')}"`)
+    .join(' ');
+}
+
 export const sqlTools = {
   query: tool({
-    description:
-      'Execute a SQL query on the GitHub events database. Returns results as JSON array. Use SELECT queries only.',
+    description: `Execute a SQL query on the GitHub events database. Use SELECT queries only, one statement per call; queries stop after ${QUERY_TIMEOUT_MS / 1000}s and keep at most ${MAX_ROWS} rows. Output starts with a "Rows x-y of N" header, then one page of rows as a JSON array (default) or compact CSV/TSV; when more rows remain, it names a cursor to pass to next. Problems come back as {"error", "message", "hint"}.`,
     inputSchema: z.object({
       sql: z.string().describe('SQL query to execute (SELECT only)'),
+      ...pageSchema,
     }),
-    execute: async ({ sql }) => {
-      const normalized = sql.trim().toUpperCase();
-      if (!normalized.startsWith('SELECT') && !normalized.startsWith('WITH')) {
-        throw new Error('Only SELECT queries are allowed');
+    execute: async ({ sql, format, pageSize, columns }) => {
+      try {
+        const database = await getDb();
+        const result = await runReadOnly(sql);
+        const warnings = SQL_PLAN_FEEDBACK ? planWarnings(database, queryPlan(database, sql)) : [];
+
+        const [id, cursor] = openCursor(result);
+        let output = nextPage(id, cursor, { format, pageSize, columns });
+        for (const warning of warnings) {
+          output += `\n\n[PLAN WARNING: ${warning} Check plans with explain before querying.]`;
+        }
+        return output;
+      } catch (e) {
+        return queryError(e);
       }
+    },
+  }),
 
-      const database = await getDb();
-      const results = database.prepare(sql).all();
-      const output = JSON.stringify(results, null, 2);
-      return truncateOutput(output);
+  next: tool({
+    description:
+      'Get the next page of a query result, using the cursor named at the end of the previous page. Format, page size and columns can differ from the first page.',
+    inputSchema: z.object({
+      cursor: z.string().describe('Cursor from the previous page, like "q1"'),
+      ...pageSchema,
+    }),
+    execute: async ({ cursor: id, format, pageSize, columns }) => {
+      try {
+        const cursor = cursors.get(id);
+        if (!cursor) {
+          throw new QueryRejected(
+            'unknown_cursor',
+            `No open cursor "${id}"`,
+            'Cursors close after their last page, and only the most recent ones are kept. Re-run the query.',
+          );
+        }
+        return nextPage(id, cursor, { format, pageSize, columns });
+      } catch (e) {
+        return queryError(e);
+      }
     },
   }),
 
+  search: tool({
+    description:
+      'Full-text search (SQLite FTS5, BM25-ranked) over issue and PR titles/bodies and comments. Returns the best matches with highlighted [snippets]. Supports FTS5 syntax: "exact phrase", AND/OR/NOT, prefix*, NEAR(a b).',
+    inputSchema: z.object({
+      query: z.string().describe('Search terms or an FTS5 query'),
+      type: z
+        .enum(['issues', 'pulls', 'comments', 'all'])
+        .default('all')
+        .describe('Which content to search'),
+      limit: z.number().default(20).describe('Maximum number of results'),
+    }),
+    execute: async ({ query, type, limit }) => {
+      try {
+        if (!query.trim()) {
+          throw new QueryRejected('empty_query', 'The search query is empty', 'Pass search terms.');
+        }
+        const database = await getDb();
+        const kinds = type === 'all' ? (['issues', 'pulls', 'comments'] as const) : [type];
+
+        const run = (match: string) =>
+          kinds
+            .flatMap((kind) =>
+              database.prepare<unknown[], { rank: number }>(SEARCH_QUERIES[kind]).all(match, limit),
+            )
+            .sort((a, b) => a.rank - b.rank)
+            .slice(0, limit);
+
+        let results;
+        try {
+          results = run(query);
+        } catch {
+          // Not valid FTS5 syntax - fall back to matching the terms literally
+          results = run(quoteTerms(query));
+        }
+        return truncateOutput(JSON.stringify(results, null, 2));
+      } catch (e) {
+        return queryError(e);
+      }
+    },
+  }),
+
+  ...(SQL_PLAN_FEEDBACK && {
+    explain: tool({
+      description:
+        'Show how SQLite would run a SELECT without running it: each step of EXPLAIN QUERY PLAN with the table, the index used (null for a full scan) and an estimated row count, plus warnings for full scans of large tables. Use it to check an expensive query before running it.',
+      inputSchema: z.object({
+        sql: z.string().describe('SQL query to explain (SELECT only)'),
+      }),
+      execute: async ({ sql }) => {
+        try {
+          const database = await getDb();
+          prepareReadOnly(database, sql);
+          const plan = queryPlan(database, sql);
+          return JSON.stringify({ plan, warnings: planWarnings(database, plan) }, null, 2);
+        } catch (e) {
+          return queryError(e);
+        }
+      },
+    }),
+  }),
+
   schema: tool({
     description: 'Get the database schema showing all tables and their columns',
     inputSchema: z.object({}),
     execute: async () => {
       const database = await getDb();
       const tables = database
-        .prepare("SELECT sql FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'")
+        .prepare(`SELECT sql FROM sqlite_master WHERE ${USER_TABLES}`)
         .all() as { sql: string }[];
       return tables.map((t) => t.sql).join('\n\n');
     },
@@ -63,7 +558,7 @@ export const sqlTools = {
     execute: async () => {
       const database = await getDb();
       const tables = database
-        .prepare("SELECT name FROM sqlite_master WHERE type='table' AND name NOT LIKE 'sqlite_%'")
+        .prepare(`SELECT name FROM sqlite_master WHERE ${USER_TABLES}`)
         .all() as { name: string }[];
       return tables.map((t) => t.name).join('\n');
     },
@@ -76,12 +571,14 @@ export const sqlTools = {
       limit: z.number().default(5).describe('Number of rows to return'),
     }),
     execute: async ({ table, limit }) => {
-      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(table)) {
-        throw new Error('Invalid table name');
+      try {
+        const database = await getDb();
+        assertTable(database, table);
+        const { rows } = await runReadOnly(`SELECT * FROM "${table}" LIMIT ?`, [limit]);
+        return truncateOutput(JSON.stringify(rows, null, 2));
+      } catch (e) {
+        return queryError(e);
       }
-      const database = await getDb();
-      const results = database.prepare(`SELECT * FROM ${table} LIMIT ?`).all(limit);
-      return truncateOutput(JSON.stringify(results, null, 2));
     },
   }),
 
@@ -92,15 +589,19 @@ export const sqlTools = {
       where: z.string().optional().describe('Optional WHERE condition (without the WHERE keyword)'),
     }),
     execute: async ({ table, where }) => {
-      if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(table)) {
-        throw new Error('Invalid table name');
+      try {
+        const database = await getDb();
+        assertTable(database, table);
+        // The condition is still SQL text from the model, so it goes through the same
+        // read-only, single-statement checks as query
+        const sql = where
+          ? `SELECT COUNT(*) as count FROM "${table}" WHERE (${where})`
+          : `SELECT COUNT(*) as count FROM "${table}"`;
+        const { rows } = await runReadOnly(sql);
+        return `${(rows[0] as { count: number }).count} rows`;
+      } catch (e) {
+        return queryError(e);
       }
-      const database = await getDb();
-      const sql = where
-        ? `SELECT COUNT(*) as count FROM ${table} WHERE ${where}`
-        : `SELECT COUNT(*) as count FROM ${table}`;
-      const result = database.prepare(sql).get() as { count: number };
-      return `${result.count} rows`;
     },
   }),
 };